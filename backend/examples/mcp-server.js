@@ -0,0 +1,110 @@
+#!/usr/bin/env node
+/**
+ * 示例 MCP server（stdio 传输，无依赖），用于测试 MCP 接入：
+ *
+ *   传输方式: stdio
+ *   命令:     node
+ *   参数:     examples/mcp-server.js（相对于 backend 目录）
+ *
+ * 提供三个工具：echo（原样返回）、add（两数相加）、current_time（指定时区的当前时间）
+ * 消息格式为按行分隔的 JSON-RPC 2.0，日志写在 stderr（stdout 只能输出协议消息）
+ */
+import { createInterface } from 'node:readline'
+
+const TOOLS = [
+  {
+    name: 'echo',
+    description: 'Echo back the given text.',
+    inputSchema: {
+      type: 'object',
+      properties: { text: { type: 'string', description: 'Text to echo' } },
+      required: ['text'],
+    },
+  },
+  {
+    name: 'add',
+    description: 'Add two numbers.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        a: { type: 'number' },
+        b: { type: 'number' },
+      },
+      required: ['a', 'b'],
+    },
+  },
+  {
+    name: 'current_time',
+    description: 'Get the current date and time in a timezone.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        timezone: { type: 'string', description: 'IANA timezone, e.g. Asia/Shanghai. Defaults to UTC.' },
+      },
+    },
+  },
+]
+
+function callTool(name, args) {
+  switch (name) {
+    case 'echo':
+      return String(args.text ?? '')
+    case 'add':
+      if (typeof args.a !== 'number' || typeof args.b !== 'number') throw new Error('a and b must be numbers')
+      return String(args.a + args.b)
+    case 'current_time':
+      return new Date().toLocaleString('zh-CN', { timeZone: args.timezone || 'UTC', hour12: false })
+    default:
+      throw new Error(`Unknown tool: ${name}`)
+  }
+}
+
+function handle(msg) {
+  switch (msg.method) {
+    case 'initialize':
+      return {
+        protocolVersion: msg.params?.protocolVersion || '2025-06-18',
+        capabilities: { tools: {} },
+        serverInfo: { name: 'willknow-example', version: '1.0.0' },
+      }
+    case 'ping':
+      return {}
+    case 'tools/list':
+      return { tools: TOOLS }
+    case 'tools/call': {
+      const { name, arguments: args = {} } = msg.params ?? {}
+      // 工具执行失败以 isError 结果返回，而不是 JSON-RPC 错误
+      try {
+        return { content: [{ type: 'text', text: callTool(name, args) }] }
+      } catch (err) {
+        return { content: [{ type: 'text', text: err.message }], isError: true }
+      }
+    }
+    default: {
+      const err = new Error(`Method not found: ${msg.method}`)
+      err.code = -32601
+      throw err
+    }
+  }
+}
+
+const send = msg => process.stdout.write(JSON.stringify(msg) + '\n')
+
+createInterface({ input: process.stdin }).on('line', line => {
+  if (!line.trim()) return
+  let msg
+  try {
+    msg = JSON.parse(line)
+  } catch {
+    return send({ jsonrpc: '2.0', id: null, error: { code: -32700, message: 'Parse error' } })
+  }
+  // 通知（无 id）不需要响应
+  if (msg.id === undefined) return
+  try {
+    send({ jsonrpc: '2.0', id: msg.id, result: handle(msg) })
+  } catch (err) {
+    send({ jsonrpc: '2.0', id: msg.id, error: { code: err.code || -32603, message: err.message } })
+  }
+})
+
+console.error('willknow example MCP server started')
@@ -5,6 +5,9 @@ import { dirname, join } from 'path'
 const __dirname = dirname(fileURLToPath(import.meta.url))
 const CONFIG_PATH = join(__dirname, 'config.json')
 
+// 运行时数据目录（对话记录等），Docker 部署时挂载到宿主机 ./data
+export const DATA_DIR = process.env.DATA_DIR || join(__dirname, '../../data')
+
 export function readConfig() {
   try {
     return JSON.parse(readFileSync(CONFIG_PATH, 'utf-8'))
@@ -21,3 +24,18 @@ export function getDefaultModel() {
   const config = readConfig()
   return config.models.find(m => m.isDefault) || config.models[0] || null
 }
+
+/**
+ * 模型调用链：指定模型（未指定或已删除时为默认模型）在前，其后是它配置的备用模型
+ * 备用模型按配置顺序，跳过已删除和重复的；未配置任何模型时返回空数组
+ */
+export function getModelChain(models, modelId) {
+  const primary = (modelId && models.find(m => m.id === modelId)) || models.find(m => m.isDefault) || models[0]
+  if (!primary) return []
+  const chain = [primary]
+  for (const id of primary.fallbacks || []) {
+    const fallback = models.find(m => m.id === id)
+    if (fallback && !chain.includes(fallback)) chain.push(fallback)
+  }
+  return chain
+}
@@ -3,11 +3,21 @@ import cors from 'cors'
 import { fileURLToPath } from 'url'
 import { dirname } from 'path'
 import chatRouter from './routes/chat.js'
+import channelsRouter from './routes/channels.js'
+import conversationsRouter from './routes/conversations.js'
 import settingsRouter from './routes/settings.js'
 import skillsRouter from './routes/skills.js'
+import usageRouter from './routes/usage.js'
+import imagesRouter from './routes/images.js'
+import filesRouter from './routes/files.js'
+import knowledgeRouter from './routes/knowledge.js'
+import willknowRouter from './routes/willknow.js'
+import openaiRouter from './routes/openai.js'
 import { readConfig } from './config/index.js'
 import { channelManager } from './services/channels/manager.js'
 import { initDocker } from './services/executor.js'
+import { startSubAgentMonitor } from './services/subagent.js'
+import { warmMcpTools } from './services/mcp.js'
 
 const __dirname = dirname(fileURLToPath(import.meta.url))
 
@@ -15,16 +25,26 @@ const app = express()
 const PORT = process.env.PORT || 3000
 
 app.use(cors())
-app.use(express.json())
+// OpenAI 兼容接口每次携带完整历史（可能含 base64 图片），放宽请求体上限；须在全局解析之前注册
+app.use('/v1', express.json({ limit: '25mb' }))
+// 导入旧版本地对话：单个对话的完整历史可能超过默认的 100kb
+app.use('/api/conversations/import', express.json({ limit: '25mb' }))
+// 保留原始请求体，供通道 webhook 校验签名（如 Slack Events API）
+app.use(express.json({ verify: (req, res, buf) => { req.rawBody = buf } }))
 
 app.use('/api', chatRouter)
+app.use('/api', conversationsRouter)
 app.use('/api', settingsRouter)
 app.use('/api', skillsRouter)
-
-// 通道状态查询
-app.get('/api/channels/status', (req, res) => {
-  res.json(channelManager.getStatus())
-})
+app.use('/api', channelsRouter)
+app.use('/api', usageRouter)
+app.use('/api', imagesRouter)
+app.use('/api', filesRouter)
+app.use('/api', knowledgeRouter)
+// willknow 协议与 MCP 端点（对外服务），路径固定为 /willknow/*
+app.use(willknowRouter)
+// OpenAI 兼容接口（API Key 认证）
+app.use('/v1', openaiRouter)
 
 app.listen(PORT, async () => {
   console.log(`willknow-client backend running on http://localhost:${PORT}`)
@@ -34,6 +54,10 @@ app.listen(PORT, async () => {
     console.log('[ChannelManager] 初始化通道...')
     await channelManager.sync(config)
   }
+  // SubAgent 后台健康检查，对话时直接使用缓存的 info
+  startSubAgentMonitor(() => readConfig().subAgents || [])
+  // 在后台连接 MCP server，加载工具列表
+  warmMcpTools(config.mcpServers || [])
   // 检测 Docker 可用性（供 skill 脚本执行使用）
   await initDocker()
 })
@@ -0,0 +1,67 @@
+import { Router } from 'express'
+import { channelManager } from '../services/channels/manager.js'
+import { listChannelTypes } from '../services/channels/registry.js'
+import { listSessions, getSession, resetSession, setSessionBlocked } from '../services/channels/sessions.js'
+
+const router = Router()
+
+// 可用的通道类型及其配置 Schema（设置页据此渲染表单）
+router.get('/channels/types', async (req, res) => {
+  try {
+    res.json(await listChannelTypes())
+  } catch (err) {
+    res.status(500).json({ error: err.message })
+  }
+})
+
+// 通道状态查询
+router.get('/channels/status', (req, res) => {
+  res.json(channelManager.getStatus())
+})
+
+// 通道 webhook 回调（如 Telegram webhook 模式、Slack Events API）
+router.post('/channels/:id/webhook', (req, res) => {
+  channelManager.handleWebhook(req.params.id, req, res)
+})
+
+// 通用 Webhook 通道的消息入口
+router.post('/channels/:id/inbound', (req, res) => {
+  channelManager.handleInbound(req.params.id, req, res).catch(err => {
+    console.error('[Webhook] 处理请求失败:', err.message)
+    if (!res.headersSent) res.status(500).json({ error: err.message })
+  })
+})
+
+// 通道下的会话列表（仅摘要）
+router.get('/channels/:id/sessions', (req, res) => {
+  try {
+    res.json(listSessions(req.params.id))
+  } catch (err) {
+    res.status(400).json({ error: err.message })
+  }
+})
+
+// 读取会话完整记录（chatId 需 URL 编码）
+router.get('/channels/:id/sessions/:chatId', (req, res) => {
+  const session = getSession(req.params.id, req.params.chatId)
+  if (!session) return res.status(404).json({ error: 'Session not found' })
+  res.json(session)
+})
+
+// 屏蔽 / 解除屏蔽会话 { "blocked": true }
+router.patch('/channels/:id/sessions/:chatId', (req, res) => {
+  const { blocked } = req.body || {}
+  if (typeof blocked !== 'boolean') return res.status(400).json({ error: 'blocked must be a boolean' })
+  const session = setSessionBlocked(req.params.id, req.params.chatId, blocked)
+  if (!session) return res.status(404).json({ error: 'Session not found' })
+  res.json(session)
+})
+
+// 清空会话历史
+router.post('/channels/:id/sessions/:chatId/reset', (req, res) => {
+  const session = resetSession(req.params.id, req.params.chatId)
+  if (!session) return res.status(404).json({ error: 'Session not found' })
+  res.json(session)
+})
+
+export default router
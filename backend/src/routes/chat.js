@@ -1,24 +1,97 @@
 import { Router } from 'express'
-import { readConfig, getDefaultModel } from '../config/index.js'
+import { v4 as uuidv4 } from 'uuid'
+import { readConfig, getModelChain } from '../config/index.js'
 import { loadSubAgentTools } from '../services/subagent.js'
+import { loadMcpTools } from '../services/mcp.js'
 import { runChat } from '../services/llm.js'
+import { recordUsage } from '../services/usage.js'
+import { getImagePath, toContentBlocks } from '../services/images.js'
+import { getConversationFilesDir, getFilePath, listFiles, withFileNote } from '../services/files.js'
+import {
+  getConversation, createConversation, saveConversation, toLLMHistory, collectEvent,
+} from '../services/conversations.js'
 
 const router = Router()
 
-// 每个对话的 SubAgent session 状态（内存中，对话级别复用）
-const conversationSessions = {} // conversationId -> { subAgentId: sessionId }
-
 router.post('/chat', async (req, res) => {
-  const { message, conversationId, history = [] } = req.body
-  if (!message) return res.status(400).json({ error: 'message is required' })
+  // parentId：新消息挂在哪条消息之下（省略时接在当前分支末尾）
+  //   - 编辑用户消息：传入原消息的 parentId，生成兄弟分支
+  //   - regenerate=true：不新建用户消息，parentId 指向要重新回答的用户消息
+  // modelId：本次使用的模型，会记到对话上供后续消息沿用（省略时用对话上次选择的模型或默认模型）
+  // images：随消息发送的图片 ID（先通过 POST /api/images 上传）
+  // files：随消息发送的附件名（先通过 POST /api/conversations/:id/files 上传到该对话）
+  const {
+    message = '', conversationId, parentId, regenerate = false, modelId, images = [], files = [],
+  } = req.body
+  if (!Array.isArray(images) || images.some(id => !getImagePath(id))) {
+    return res.status(400).json({ error: 'images must be an array of uploaded image ids' })
+  }
+  if (!Array.isArray(files) || (files.length > 0 && !conversationId)) {
+    return res.status(400).json({ error: 'files must be an array of file names uploaded to the conversation' })
+  }
+  if (!message && images.length === 0 && files.length === 0 && !regenerate) {
+    return res.status(400).json({ error: 'message is required' })
+  }
 
   const config = readConfig()
-  const model = getDefaultModel()
+  const models = config.models || []
+  if (modelId && !models.some(m => m.id === modelId)) {
+    return res.status(400).json({ error: `Model not found: ${modelId}` })
+  }
+
+  // 取或建对话（历史记录以服务端存储为准）
+  let conv = conversationId ? getConversation(conversationId) : null
+  if (conversationId && !conv) {
+    return res.status(404).json({ error: 'Conversation not found' })
+  }
+  const filesDir = conv && getConversationFilesDir(conv.id)
+  const missingFile = files.find(name => !getFilePath(filesDir, name))
+  if (missingFile) return res.status(400).json({ error: `File not found: ${missingFile}` })
+  const title = (message || files[0] || '图片').slice(0, 20)
+  if (!conv) {
+    if (regenerate) return res.status(400).json({ error: 'conversationId is required' })
+    conv = createConversation({ title })
+  }
+
+  if (modelId) conv.modelId = modelId
+  const [model, ...fallbackModels] = getModelChain(models, conv.modelId)
   if (!model) {
     res.status(400).json({ error: '请先在设置页面配置并设置默认模型' })
     return
   }
 
+  const baseId = parentId !== undefined ? parentId : conv.currentLeafId
+  const base = baseId ? conv.messages.find(m => m.id === baseId) : null
+  if (baseId && !base) {
+    return res.status(400).json({ error: `Message not found: ${baseId}` })
+  }
+  if (regenerate && base?.role !== 'user') {
+    return res.status(400).json({ error: 'regenerate requires parentId of a user message' })
+  }
+
+  const history = toLLMHistory(conv, baseId)
+
+  const userMsg = regenerate
+    ? null
+    : {
+      id: uuidv4(), role: 'user', content: message, parentId: baseId ?? null, createdAt: Date.now(),
+      ...(images.length > 0 && { images }),
+      ...(files.length > 0 && { files }),
+    }
+  const assistantMsg = {
+    id: uuidv4(), role: 'assistant', content: '', toolCalls: [],
+    parentId: userMsg ? userMsg.id : baseId, createdAt: Date.now(),
+  }
+
+  // 首条消息作为标题；先落盘用户消息，刷新页面时也能看到
+  if (userMsg) {
+    if (conv.messages.length === 0 && conv.title === '新对话') conv.title = title
+    conv.messages.push(userMsg)
+    conv.currentLeafId = userMsg.id
+    conv.updatedAt = Date.now()
+    saveConversation(conv)
+  }
+
   // SSE 头
   res.setHeader('Content-Type', 'text/event-stream')
   res.setHeader('Cache-Control', 'no-cache')
@@ -26,34 +99,68 @@ router.post('/chat', async (req, res) => {
   res.flushHeaders()
 
   const send = (type, data) => {
+    if (res.writableEnded || res.destroyed) return
     res.write(`data: ${JSON.stringify({ type, ...data })}\n\n`)
   }
 
+  // 客户端断开（点击停止或关闭页面）时中止整个 agent 循环
+  const abortCtrl = new AbortController()
+  res.on('close', () => {
+    if (!res.writableFinished) abortCtrl.abort()
+  })
+
+  send('conversation', {
+    conversationId: conv.id,
+    title: conv.title,
+    userMessageId: userMsg?.id,
+    assistantMessageId: assistantMsg.id,
+  })
+
   try {
-    // 加载 SubAgent tools
-    const { tools: subAgentTools, sessions } = await loadSubAgentTools(config.subAgents || [])
-
-    // 复用对话级别的 SubAgent sessions
-    const cid = conversationId || 'default'
-    if (!conversationSessions[cid]) conversationSessions[cid] = {}
-    const subAgentSessions = conversationSessions[cid]
-
-    // 构建消息历史（来自前端传入的历史记录）
-    const messages = history.map(h => ({
-      role: h.role,
-      content: h.content,
-    }))
-    messages.push({ role: 'user', content: message })
-
-    await runChat(model, messages, subAgentTools, subAgentSessions, (type, data) => {
+    // 加载 SubAgent / MCP tools
+    const { tools: subAgentTools } = await loadSubAgentTools(config.subAgents || [])
+    const mcpTools = await loadMcpTools(config.mcpServers || [])
+
+    const messages = userMsg
+      ? [...history, { role: 'user', content: toContentBlocks(withFileNote(message, files), images) }]
+      : history
+
+    await runChat(model, messages, subAgentTools, conv.subAgentSessions, (type, data) => {
+      collectEvent(assistantMsg, type, data)
+      if (type === 'usage') recordUsage({ ...data, source: 'chat', conversationId: conv.id })
       send(type, data)
-    }, config.skills || [])
+    }, config.skills || [], {
+      signal: abortCtrl.signal,
+      fallbackModels,
+      files: listFiles(getConversationFilesDir(conv.id)),
+      knowledge: config.knowledge,
+      mcpTools,
+      compaction: conv.compaction,
+    })
 
     send('done', {})
   } catch (err) {
-    console.error('[chat error]', err)
-    send('error', { message: err.message })
+    if (abortCtrl.signal.aborted) {
+      // 保留已生成的部分回答，标记为已中断
+      console.log(`[chat] 对话 ${conv.id} 已被客户端中止`)
+      assistantMsg.interrupted = true
+    } else {
+      console.error('[chat error]', err)
+      assistantMsg.error = err.message
+      send('error', { message: err.message })
+    }
   } finally {
+    // 重新读取后再追加，避免覆盖流式输出期间的重命名；对话已被删除则不再写回
+    const latest = getConversation(conv.id)
+    if (latest) {
+      latest.messages.push(assistantMsg)
+      latest.currentLeafId = assistantMsg.id
+      latest.subAgentSessions = conv.subAgentSessions
+      latest.compaction = conv.compaction
+      if (modelId) latest.modelId = modelId
+      latest.updatedAt = Date.now()
+      saveConversation(latest)
+    }
     res.end()
   }
 })
@@ -0,0 +1,67 @@
+import { Router } from 'express'
+import { readConfig } from '../config/index.js'
+import {
+  listConversations, getConversation, createConversation,
+  updateConversation, deleteConversation, importConversation,
+} from '../services/conversations.js'
+
+const router = Router()
+
+// 对话列表（仅摘要）
+router.get('/conversations', (req, res) => {
+  res.json(listConversations())
+})
+
+// 新建对话
+router.post('/conversations', (req, res) => {
+  const { title } = req.body || {}
+  res.json(createConversation({ title }))
+})
+
+// 导入旧版保存在浏览器 localStorage 中的对话（每次一个，已存在的 ID 跳过）
+router.post('/conversations/import', (req, res) => {
+  const conv = req.body
+  if (!conv || typeof conv !== 'object' || !Array.isArray(conv.messages)) {
+    return res.status(400).json({ error: 'messages is required' })
+  }
+  res.json(importConversation(conv))
+})
+
+// 读取完整对话（含消息与工具调用）
+router.get('/conversations/:id', (req, res) => {
+  const conv = getConversation(req.params.id)
+  if (!conv) return res.status(404).json({ error: 'Conversation not found' })
+  res.json(conv)
+})
+
+// 重命名对话 / 切换激活分支
+router.patch('/conversations/:id', (req, res) => {
+  const { title, currentLeafId, modelId } = req.body || {}
+  if (title !== undefined && (typeof title !== 'string' || !title.trim())) {
+    return res.status(400).json({ error: 'title must be a non-empty string' })
+  }
+  if (modelId && !(readConfig().models || []).some(m => m.id === modelId)) {
+    return res.status(400).json({ error: `Model not found: ${modelId}` })
+  }
+  try {
+    const conv = updateConversation(req.params.id, { title, currentLeafId, modelId })
+    if (!conv) return res.status(404).json({ error: 'Conversation not found' })
+    res.json(conv)
+  } catch (err) {
+    res.status(400).json({ error: err.message })
+  }
+})
+
+// 删除对话
+router.delete('/conversations/:id', (req, res) => {
+  try {
+    if (!deleteConversation(req.params.id)) {
+      return res.status(404).json({ error: 'Conversation not found' })
+    }
+    res.json({ ok: true })
+  } catch (err) {
+    res.status(400).json({ error: err.message })
+  }
+})
+
+export default router
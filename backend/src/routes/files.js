@@ -0,0 +1,58 @@
+import express, { Router } from 'express'
+import { getConversation } from '../services/conversations.js'
+import {
+  MAX_FILE_BYTES, getConversationFilesDir, listFiles, getFilePath, saveFile, deleteFile,
+} from '../services/files.js'
+
+const router = Router()
+
+// 取对话的附件目录，对话不存在时返回 404
+function filesDir(req, res) {
+  if (!getConversation(req.params.id)) {
+    res.status(404).json({ error: 'Conversation not found' })
+    return null
+  }
+  return getConversationFilesDir(req.params.id)
+}
+
+// 附件列表
+router.get('/conversations/:id/files', (req, res) => {
+  const dir = filesDir(req, res)
+  if (!dir) return
+  res.json(listFiles(dir).map(({ name, size, uploadedAt }) => ({ name, size, uploadedAt })))
+})
+
+// 上传附件：请求体为文件原始数据（Content-Type: application/octet-stream），文件名通过 ?name= 传入
+router.post(
+  '/conversations/:id/files',
+  express.raw({ type: () => true, limit: MAX_FILE_BYTES }),
+  (req, res) => {
+    const dir = filesDir(req, res)
+    if (!dir) return
+    if (!Buffer.isBuffer(req.body)) return res.status(400).json({ error: 'Request body must be the file content' })
+    try {
+      res.status(201).json(saveFile(dir, req.query.name, req.body))
+    } catch (err) {
+      res.status(400).json({ error: err.message })
+    }
+  },
+)
+
+// 下载附件
+router.get('/conversations/:id/files/:name', (req, res) => {
+  const dir = filesDir(req, res)
+  if (!dir) return
+  const path = getFilePath(dir, req.params.name)
+  if (!path) return res.status(404).json({ error: 'File not found' })
+  res.download(path, req.params.name)
+})
+
+// 删除附件
+router.delete('/conversations/:id/files/:name', (req, res) => {
+  const dir = filesDir(req, res)
+  if (!dir) return
+  if (!deleteFile(dir, req.params.name)) return res.status(404).json({ error: 'File not found' })
+  res.json({ ok: true })
+})
+
+export default router
@@ -0,0 +1,31 @@
+import express, { Router } from 'express'
+import { IMAGE_TYPES, MAX_IMAGE_BYTES, saveImage, getImagePath, getMediaType } from '../services/images.js'
+
+const router = Router()
+
+// 上传图片：请求体为图片原始数据，Content-Type 为图片格式，返回 { id }
+router.post(
+  '/images',
+  express.raw({ type: Object.keys(IMAGE_TYPES), limit: MAX_IMAGE_BYTES }),
+  (req, res) => {
+    const mediaType = req.headers['content-type']?.split(';')[0].trim()
+    if (!IMAGE_TYPES[mediaType] || !Buffer.isBuffer(req.body) || req.body.length === 0) {
+      return res.status(400).json({ error: `Supported image types: ${Object.keys(IMAGE_TYPES).join(', ')}` })
+    }
+    try {
+      res.status(201).json({ id: saveImage(req.body, mediaType) })
+    } catch (err) {
+      res.status(400).json({ error: err.message })
+    }
+  },
+)
+
+router.get('/images/:id', (req, res) => {
+  const path = getImagePath(req.params.id)
+  if (!path) return res.status(404).json({ error: 'Image not found' })
+  res.type(getMediaType(req.params.id))
+  res.set('Cache-Control', 'public, max-age=31536000, immutable')
+  res.sendFile(path)
+})
+
+export default router
@@ -0,0 +1,85 @@
+import express, { Router } from 'express'
+import { readConfig } from '../config/index.js'
+import {
+  MAX_DOCUMENT_BYTES, MAX_TOP_K, DEFAULT_TOP_K, listDocuments, addDocument, deleteDocument,
+  reindexCollection, getCollectionStatus, searchKnowledge,
+} from '../services/knowledge.js'
+
+const router = Router()
+
+// 集合配置保存在 config.json 的 knowledge 字段（由设置页通过 PUT /api/settings 管理）
+function findCollection(req, res) {
+  const collection = (readConfig().knowledge || []).find(c => c.id === req.params.id)
+  if (!collection) res.status(404).json({ error: 'Collection not found' })
+  return collection
+}
+
+// 所有集合的索引状态
+router.get('/knowledge/status', (req, res) => {
+  const result = {}
+  for (const collection of readConfig().knowledge || []) {
+    result[collection.id] = getCollectionStatus(collection)
+  }
+  res.json(result)
+})
+
+// 集合中的文档列表
+router.get('/knowledge/:id/documents', (req, res) => {
+  const collection = findCollection(req, res)
+  if (!collection) return
+  res.json(listDocuments(collection.id))
+})
+
+// 上传文档：请求体为文件原始数据（Content-Type: application/octet-stream），文件名通过 ?name= 传入
+router.post(
+  '/knowledge/:id/documents',
+  express.raw({ type: () => true, limit: MAX_DOCUMENT_BYTES }),
+  async (req, res) => {
+    const collection = findCollection(req, res)
+    if (!collection) return
+    const name = String(req.query.name || '').split(/[/\\]/).pop()
+    if (!name || !Buffer.isBuffer(req.body) || req.body.length === 0) {
+      return res.status(400).json({ error: 'name and file content are required' })
+    }
+    try {
+      res.status(201).json(await addDocument(collection, name, req.body))
+    } catch (err) {
+      res.status(400).json({ error: err.message })
+    }
+  },
+)
+
+router.delete('/knowledge/:id/documents/:docId', async (req, res) => {
+  const collection = findCollection(req, res)
+  if (!collection) return
+  if (!await deleteDocument(collection.id, req.params.docId)) {
+    return res.status(404).json({ error: 'Document not found' })
+  }
+  res.json({ ok: true })
+})
+
+// 按当前的 embedding 配置重建向量索引
+router.post('/knowledge/:id/reindex', async (req, res) => {
+  const collection = findCollection(req, res)
+  if (!collection) return
+  try {
+    res.json(await reindexCollection(collection))
+  } catch (err) {
+    res.status(502).json({ error: err.message })
+  }
+})
+
+// 检索测试：{ query, collectionIds?, topK? }，collectionIds 省略时检索所有已启用的集合
+router.post('/knowledge/search', async (req, res) => {
+  const { query, collectionIds, topK = DEFAULT_TOP_K } = req.body || {}
+  if (!query || typeof query !== 'string') return res.status(400).json({ error: 'query is required' })
+  const collections = (readConfig().knowledge || []).filter(c =>
+    Array.isArray(collectionIds) ? collectionIds.includes(c.id) : c.enabled)
+  try {
+    res.json(await searchKnowledge(collections, query, { topK: Math.min(Math.max(1, Number(topK) || DEFAULT_TOP_K), MAX_TOP_K) }))
+  } catch (err) {
+    res.status(502).json({ error: err.message })
+  }
+})
+
+export default router
@@ -0,0 +1,196 @@
+import { Router } from 'express'
+import { v4 as uuidv4 } from 'uuid'
+import { readConfig, getModelChain } from '../config/index.js'
+import { loadSubAgentTools } from '../services/subagent.js'
+import { loadMcpTools } from '../services/mcp.js'
+import { runChat } from '../services/llm.js'
+import { recordUsage } from '../services/usage.js'
+import { IMAGE_TYPES, MAX_IMAGE_BYTES } from '../services/images.js'
+import { safeEqual } from '../services/auth.js'
+
+const router = Router()
+
+/**
+ * OpenAI 兼容接口：/v1/models、/v1/chat/completions，供只支持 OpenAI Chat Completions API 的脚本和 IDE 插件使用
+ *
+ * model 字段选择已配置的模型（按名称或 ID），或「对外服务」的 agent 配置（名称默认为 willknow，使用其模型与系统提示词）；
+ * SubAgent、MCP、技能与知识库的工具调用都在服务端的 runChat 中完成，客户端只收到最终回答。
+ * 接口无状态：每次请求携带完整历史，不保存对话。
+ */
+
+const DEFAULT_PROFILE = 'willknow'
+
+function sendError(res, status, message, type = 'invalid_request_error', code = null) {
+  res.status(status).json({ error: { message, type, code } })
+}
+
+// 使用设置页创建的 API Key 认证：Authorization: Bearer <key>
+router.use((req, res, next) => {
+  const token = req.headers.authorization?.replace(/^Bearer\s+/i, '')
+  const apiKey = token && (readConfig().apiKeys || []).find(k => k.key && safeEqual(token, k.key))
+  if (!apiKey) return sendError(res, 401, 'Incorrect API key provided', 'invalid_request_error', 'invalid_api_key')
+  req.apiKey = apiKey
+  next()
+})
+
+/**
+ * 可选的 model：agent 配置在前，其后为所有已配置的模型（各自带备用模型）
+ */
+function listTargets(config) {
+  const models = config.models || []
+  const agent = config.agent || {}
+  return [
+    { id: agent.name || DEFAULT_PROFILE, chain: getModelChain(models, agent.modelId), systemPrompt: agent.systemPrompt },
+    ...models.map(m => ({ id: m.name, modelId: m.id, chain: getModelChain(models, m.id) })),
+  ].filter(t => t.chain.length > 0)
+}
+
+router.get('/models', (req, res) => {
+  res.json({
+    object: 'list',
+    data: listTargets(readConfig()).map(t => ({ id: t.id, object: 'model', created: 0, owned_by: 'willknow' })),
+  })
+})
+
+/**
+ * OpenAI content（字符串或 text / image_url 片段数组）→ 内部格式；图片只支持 data URL
+ */
+function toContent(content) {
+  if (typeof content === 'string') return content
+  if (!Array.isArray(content)) return ''
+  const blocks = []
+  for (const part of content) {
+    if (part.type === 'text') {
+      blocks.push({ type: 'text', text: part.text })
+    } else if (part.type === 'image_url') {
+      const match = /^data:([^;]+);base64,(.+)$/s.exec(part.image_url?.url || '')
+      if (!match) throw new Error('Only base64 data URLs are supported for image_url')
+      const [, mediaType, data] = match
+      if (!IMAGE_TYPES[mediaType]) throw new Error(`Unsupported image type: ${mediaType}`)
+      if (data.length * 3 / 4 > MAX_IMAGE_BYTES) throw new Error('Image too large')
+      blocks.push({ type: 'image', source: { type: 'base64', media_type: mediaType, data } })
+    }
+  }
+  return blocks.every(b => b.type === 'text') ? blocks.map(b => b.text).join('\n') : blocks
+}
+
+function textOf(content) {
+  if (typeof content === 'string') return content
+  return Array.isArray(content) ? content.filter(p => p.type === 'text').map(p => p.text).join('\n') : ''
+}
+
+/**
+ * OpenAI messages → 系统提示词 + 对话历史
+ * 工具在服务端执行，客户端的 tool 消息和 assistant 的 tool_calls 不适用，只保留文本
+ */
+function toHistory(messages) {
+  const system = []
+  const history = []
+  for (const m of messages) {
+    if (m.role === 'system' || m.role === 'developer') {
+      system.push(textOf(m.content))
+    } else if (m.role === 'user') {
+      history.push({ role: 'user', content: toContent(m.content) })
+    } else if (m.role === 'assistant' && textOf(m.content)) {
+      history.push({ role: 'assistant', content: textOf(m.content) })
+    }
+  }
+  return { system: system.filter(Boolean).join('\n\n'), history }
+}
+
+router.post('/chat/completions', async (req, res) => {
+  const { model: requested, messages, stream = false, stream_options } = req.body || {}
+  if (!Array.isArray(messages) || messages.length === 0) {
+    return sendError(res, 400, 'messages is required')
+  }
+  const config = readConfig()
+  const target = listTargets(config).find(t => t.id === requested || (t.modelId && t.modelId === requested))
+  if (!target) return sendError(res, 404, `The model '${requested}' does not exist`, 'invalid_request_error', 'model_not_found')
+
+  let system, history
+  try {
+    ({ system, history } = toHistory(messages))
+  } catch (err) {
+    return sendError(res, 400, err.message)
+  }
+  if (history.at(-1)?.role !== 'user') return sendError(res, 400, 'The last message must be from the user')
+
+  const [model, ...fallbackModels] = target.chain
+  const id = `chatcmpl-${uuidv4().replace(/-/g, '')}`
+  const created = Math.floor(Date.now() / 1000)
+  const usage = { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 }
+  let content = ''
+  let reasoning = ''
+
+  const chunk = (delta, finishReason = null) => ({
+    id, object: 'chat.completion.chunk', created, model: target.id,
+    choices: [{ index: 0, delta, finish_reason: finishReason }],
+  })
+  const write = data => {
+    if (!res.writableEnded && !res.destroyed) res.write(`data: ${JSON.stringify(data)}\n\n`)
+  }
+
+  if (stream) {
+    res.setHeader('Content-Type', 'text/event-stream')
+    res.setHeader('Cache-Control', 'no-cache')
+    res.setHeader('Connection', 'keep-alive')
+    res.flushHeaders()
+    write(chunk({ role: 'assistant', content: '' }))
+  }
+
+  // 客户端断开时中止 agent 循环
+  const abortCtrl = new AbortController()
+  res.on('close', () => {
+    if (!res.writableFinished) abortCtrl.abort()
+  })
+
+  try {
+    const { tools: subAgentTools } = await loadSubAgentTools(config.subAgents || [])
+    const mcpTools = await loadMcpTools(config.mcpServers || [])
+    await runChat(model, history, subAgentTools, {}, (type, data) => {
+      if (type === 'text') {
+        content += data.content
+        if (stream) write(chunk({ content: data.content }))
+      } else if (type === 'thinking') {
+        // 思考过程按 DeepSeek 等接口的惯例放在 reasoning_content
+        reasoning += data.content
+        if (stream) write(chunk({ reasoning_content: data.content }))
+      } else if (type === 'usage') {
+        usage.prompt_tokens += data.inputTokens
+        usage.completion_tokens += data.outputTokens
+        usage.total_tokens = usage.prompt_tokens + usage.completion_tokens
+        recordUsage({ ...data, source: 'api', apiKeyId: req.apiKey.id })
+      }
+    }, config.skills || [], {
+      signal: abortCtrl.signal,
+      systemPrompt: [target.systemPrompt, system].filter(Boolean).join('\n\n'),
+      fallbackModels,
+      knowledge: config.knowledge,
+      mcpTools,
+    })
+  } catch (err) {
+    if (abortCtrl.signal.aborted) return
+    console.error('[openai] chat error:', err.message)
+    if (!stream) return sendError(res, 500, err.message, 'server_error')
+    write({ error: { message: err.message, type: 'server_error', code: null } })
+    return res.end('data: [DONE]\n\n')
+  }
+
+  if (stream) {
+    write(chunk({}, 'stop'))
+    if (stream_options?.include_usage) write({ id, object: 'chat.completion.chunk', created, model: target.id, choices: [], usage })
+    res.end('data: [DONE]\n\n')
+  } else {
+    res.json({
+      id, object: 'chat.completion', created, model: target.id,
+      choices: [{
+        index: 0,
+        message: { role: 'assistant', content, ...(reasoning && { reasoning_content: reasoning }) },
+        finish_reason: 'stop',
+      }],
+      usage,
+    })
+  }
+})
+
+export default router
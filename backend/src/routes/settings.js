@@ -1,7 +1,9 @@
 import { Router } from 'express'
 import { readConfig, writeConfig } from '../config/index.js'
-import { probeSubAgent } from '../services/subagent.js'
+import { probeSubAgent, syncSubAgentHealth, getSubAgentStatus } from '../services/subagent.js'
+import { probeMcpServer, syncMcpClients, warmMcpTools } from '../services/mcp.js'
 import { channelManager } from '../services/channels/manager.js'
+import { removeCollection } from '../services/knowledge.js'
 import fetch from 'node-fetch'
 
 const router = Router()
@@ -15,8 +17,22 @@ router.put('/settings', async (req, res) => {
   if (!config || typeof config !== 'object') {
     return res.status(400).json({ error: 'Invalid config' })
   }
+  const previous = readConfig()
   writeConfig(config)
 
+  // 删除已移除的知识库集合的索引
+  const kept = new Set((config.knowledge || []).map(c => c.id))
+  for (const collection of previous.knowledge || []) {
+    if (!kept.has(collection.id)) removeCollection(collection.id).catch(() => {})
+  }
+
+  // 关闭已删除、禁用或连接配置变更的 MCP server 连接
+  syncMcpClients(config.mcpServers || [])
+  warmMcpTools(config.mcpServers || [])
+
+  // 立即检查新增或连接配置变更的 SubAgent（非阻塞）
+  syncSubAgentHealth(config.subAgents || [])
+
   // 配置变更后同步通道（非阻塞）
   channelManager.sync(config).catch(err =>
     console.error('[ChannelManager] sync error:', err.message)
@@ -37,6 +53,23 @@ router.post('/subagents/probe', async (req, res) => {
   }
 })
 
+// SubAgent 健康状态（后台定期检查）
+router.get('/subagents/status', (req, res) => {
+  res.json(getSubAgentStatus())
+})
+
+// 探测 MCP server：建立临时连接并列出工具
+// stdio server 会启动请求中的命令，与保存设置同样等同于在后端执行命令（见 README 安全提示）
+router.post('/mcp/probe', async (req, res) => {
+  const server = req.body
+  if (!server || typeof server !== 'object') return res.status(400).json({ error: 'Invalid server config' })
+  try {
+    res.json({ ok: true, ...await probeMcpServer(server) })
+  } catch (err) {
+    res.json({ ok: false, error: err.message })
+  }
+})
+
 // 探测模型连通性（发送最小请求验证 API Key 和 Base URL）
 router.post('/models/probe', async (req, res) => {
   const { provider, apiKey, baseURL, model } = req.body
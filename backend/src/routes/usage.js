@@ -0,0 +1,37 @@
+import { Router } from 'express'
+import { readConfig } from '../config/index.js'
+import { getConversation } from '../services/conversations.js'
+import { getUsageReport } from '../services/usage.js'
+
+const router = Router()
+
+// 对话分组只返回用量最高的前若干个
+const MAX_CONVERSATIONS = 50
+
+// 用量统计：GET /api/usage?days=30
+router.get('/usage', (req, res) => {
+  const days = Number(req.query.days ?? 30)
+  if (!Number.isInteger(days) || days < 1 || days > 365) {
+    return res.status(400).json({ error: 'days must be an integer between 1 and 365' })
+  }
+
+  const report = getUsageReport(days)
+  const config = readConfig()
+
+  // 名称以当前配置为准；已删除的模型 / 通道 / 对话保留记录中的名称或 ID
+  report.byModel = report.byModel.map(g => ({
+    ...g, modelName: config.models?.find(m => m.id === g.key)?.name || g.modelName || g.key,
+  }))
+  report.byChannel = report.byChannel.map(g => {
+    const channel = config.channels?.find(c => c.id === g.key)
+    return { ...g, name: channel?.name || g.key, type: channel?.type, deleted: !channel }
+  })
+  report.byConversation = report.byConversation.slice(0, MAX_CONVERSATIONS).map(g => {
+    const conv = getConversation(g.key)
+    return { ...g, title: conv?.title || g.key, deleted: !conv }
+  })
+
+  res.json(report)
+})
+
+export default router
@@ -0,0 +1,171 @@
+import { Router } from 'express'
+import { readConfig } from '../config/index.js'
+import { getAgentInfo, chatAsAgent } from '../services/agent.js'
+import { MAX_CALL_DEPTH, withCallDepth } from '../services/subagent.js'
+import { safeEqual } from '../services/auth.js'
+
+const router = Router()
+
+// MCP 端点支持的协议版本（新的在前），客户端请求其他版本时返回最新版本
+const MCP_PROTOCOL_VERSIONS = ['2025-06-18', '2025-03-26', '2024-11-05']
+
+/**
+ * 对外服务的开关与认证：未开启时返回 404，设置了 token 时要求 Authorization: Bearer <token>；
+ * 请求在调用方传入的委派深度下处理，超过上限返回 508
+ */
+function guard(feature) {
+  return (req, res, next) => {
+    const settings = readConfig().agent
+    if (!settings?.enabled || (feature === 'mcp' && !settings.mcp)) {
+      return res.status(404).json({ error: 'Not found' })
+    }
+    if (settings.token && !safeEqual(req.headers.authorization, `Bearer ${settings.token}`)) {
+      return res.status(401).json({ error: 'Unauthorized' })
+    }
+    const depth = Number(req.headers['x-willknow-depth']) || 0
+    if (depth > MAX_CALL_DEPTH) {
+      return res.status(508).json({ error: `Call depth exceeded (${MAX_CALL_DEPTH})` })
+    }
+    withCallDepth(depth, next)
+  }
+}
+
+// 客户端断开时中止 agent 循环
+function abortOnClose(res) {
+  const abortCtrl = new AbortController()
+  res.on('close', () => {
+    if (!res.writableFinished) abortCtrl.abort()
+  })
+  return abortCtrl.signal
+}
+
+// ─── willknow 协议 ───────────────────────────────────────────────────────────
+
+router.get('/willknow/info', guard('willknow'), async (req, res) => {
+  res.json(await getAgentInfo(readConfig()))
+})
+
+// 调用方 Accept 包含 text/event-stream 时按 v2 流式返回：progress（工具调用进度）、text（部分回答）、done / error
+router.post('/willknow/chat', guard('willknow'), async (req, res) => {
+  const { message, session_id } = req.body || {}
+  if (!message || typeof message !== 'string') return res.status(400).json({ error: 'message is required' })
+  const signal = abortOnClose(res)
+
+  if (!req.headers.accept?.includes('text/event-stream')) {
+    try {
+      res.json(await chatAsAgent(readConfig(), message, session_id, signal))
+    } catch (err) {
+      if (signal.aborted) return
+      console.error('[willknow] chat error:', err.message)
+      res.status(500).json({ error: err.message })
+    }
+    return
+  }
+
+  res.setHeader('Content-Type', 'text/event-stream')
+  res.setHeader('Cache-Control', 'no-cache')
+  res.setHeader('Connection', 'keep-alive')
+  res.flushHeaders()
+  const send = (type, data) => {
+    if (!res.writableEnded && !res.destroyed) res.write(`data: ${JSON.stringify({ type, ...data })}\n\n`)
+  }
+
+  try {
+    const result = await chatAsAgent(readConfig(), message, session_id, signal, (type, data) => {
+      if (type === 'text') send('text', { content: data.content })
+      else if (type === 'tool_call') send('progress', { message: `调用 ${data.agentName}` })
+      // 下游 v2 SubAgent 的进度继续向上转发（其部分回答只是工具结果，不转发）
+      else if (type === 'tool_progress' && data.kind === 'progress') send('progress', { message: data.content })
+    })
+    send('done', result)
+  } catch (err) {
+    if (signal.aborted) return
+    console.error('[willknow] chat error:', err.message)
+    send('error', { message: err.message })
+  }
+  res.end()
+})
+
+// ─── MCP 端点（Streamable HTTP，无状态，只返回 JSON 响应）────────────────────
+
+/**
+ * 以 MCP 工具的形式提供与 willknow 协议相同的能力：一个 chat 工具，描述中列出能力
+ */
+function buildChatTool(info) {
+  const capList = info.capabilities.map(c => `- ${c.name}: ${c.description}`).join('\n')
+  return {
+    name: 'chat',
+    description: `${info.name}: ${info.description}${capList ? '\n\nCapabilities:\n' + capList : ''}`,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        message: { type: 'string', description: '用自然语言描述你要执行的操作' },
+        session_id: { type: 'string', description: '上一次调用返回的 session_id，用于继续同一会话' },
+      },
+      required: ['message'],
+    },
+    outputSchema: {
+      type: 'object',
+      properties: {
+        message: { type: 'string' },
+        session_id: { type: 'string' },
+      },
+      required: ['message', 'session_id'],
+    },
+  }
+}
+
+router.post('/willknow/mcp', guard('mcp'), async (req, res) => {
+  const msg = req.body
+  if (!msg || Array.isArray(msg) || msg.jsonrpc !== '2.0') {
+    return res.status(400).json({ jsonrpc: '2.0', id: null, error: { code: -32600, message: 'Invalid Request' } })
+  }
+  // 通知和客户端的响应不需要回复
+  if (msg.id === undefined || !msg.method) return res.status(202).end()
+
+  const reply = result => res.json({ jsonrpc: '2.0', id: msg.id, result })
+  const fail = (code, message) => res.json({ jsonrpc: '2.0', id: msg.id, error: { code, message } })
+  const config = readConfig()
+
+  switch (msg.method) {
+    case 'initialize': {
+      const requested = msg.params?.protocolVersion
+      return reply({
+        protocolVersion: MCP_PROTOCOL_VERSIONS.includes(requested) ? requested : MCP_PROTOCOL_VERSIONS[0],
+        capabilities: { tools: {} },
+        serverInfo: { name: config.agent.name || 'willknow', version: '1.0.0' },
+      })
+    }
+    case 'ping':
+      return reply({})
+    case 'tools/list':
+      return reply({ tools: [buildChatTool(await getAgentInfo(config))] })
+    case 'tools/call': {
+      const { name, arguments: args = {} } = msg.params ?? {}
+      if (name !== 'chat') return fail(-32602, `Unknown tool: ${name}`)
+      if (!args.message || typeof args.message !== 'string') {
+        return reply({ content: [{ type: 'text', text: 'message is required' }], isError: true })
+      }
+      const signal = abortOnClose(res)
+      try {
+        const result = await chatAsAgent(config, args.message, args.session_id, signal)
+        return reply({
+          content: [{ type: 'text', text: result.message }],
+          structuredContent: result,
+        })
+      } catch (err) {
+        if (signal.aborted) return
+        return reply({ content: [{ type: 'text', text: err.message }], isError: true })
+      }
+    }
+    default:
+      return fail(-32601, `Method not found: ${msg.method}`)
+  }
+})
+
+// 不提供服务端推送的 SSE 流，也没有需要结束的会话
+router.all('/willknow/mcp', (req, res) => {
+  res.status(405).set('Allow', 'POST').end()
+})
+
+export default router
@@ -0,0 +1,106 @@
+import { v4 as uuidv4 } from 'uuid'
+import { getModelChain } from '../config/index.js'
+import { getCachedSubAgentInfo, loadSubAgentTools, PROTOCOL_VERSION } from './subagent.js'
+import { loadMcpTools } from './mcp.js'
+import { runChat } from './llm.js'
+import { recordUsage } from './usage.js'
+import { getConversationFilesDir, listFiles } from './files.js'
+import {
+  getConversation, createConversation, saveConversation, toLLMHistory, collectEvent,
+} from './conversations.js'
+
+/**
+ * 对外服务：willknow 自身实现 willknow 协议（及可选的 MCP 端点），可作为其他实例的 SubAgent，
+ * 实现逐级委派（如部门机器人调用团队机器人）
+ *
+ * 配置保存在 config.agent：{ enabled, name, description, token, modelId, systemPrompt, mcp }
+ * 每个 session_id 对应一个存储的对话（ID 为 willknow-<session_id>），在对话列表中可以查看调用记录
+ */
+
+const DEFAULT_NAME = 'willknow'
+// 协议会话对应的对话 ID 前缀：调用方只能访问协议会话，不能通过 session_id 读写网页端的对话
+const SESSION_PREFIX = 'willknow-'
+const DEFAULT_DESCRIPTION = '通用 AI 助手，可调用已接入的 SubAgent 和技能完成任务'
+
+/**
+ * 生成 /willknow/info 的能力描述：已启用的 SubAgent（取健康检查缓存的描述，无法连通的跳过）和技能
+ */
+export async function getAgentInfo(config) {
+  const settings = config.agent || {}
+  const subAgents = (config.subAgents || []).filter(sa => sa.enabled).map(sa => {
+    const info = getCachedSubAgentInfo(sa)
+    return info && { name: sa.name, description: info.description || info.name || '' }
+  })
+  const skills = (config.skills || []).filter(s => s.enabled)
+    .map(s => ({ name: s.name, description: s.description || '' }))
+
+  return {
+    name: settings.name || DEFAULT_NAME,
+    description: settings.description || DEFAULT_DESCRIPTION,
+    protocol_version: PROTOCOL_VERSION,
+    capabilities: [...subAgents.filter(Boolean), ...skills],
+  }
+}
+
+/**
+ * 处理一次 willknow 协议的对话请求：session_id 对应 willknow-<session_id> 对话，不存在时新建会话
+ * onEvent 接收 runChat 的事件（流式响应时用于推送进度与部分文本）
+ *
+ * @returns {Promise<{ message: string, session_id: string }>}
+ */
+export async function chatAsAgent(config, message, sessionId, signal, onEvent = () => {}) {
+  const settings = config.agent || {}
+  const [model, ...fallbackModels] = getModelChain(config.models || [], settings.modelId)
+  if (!model) throw new Error('No model configured')
+
+  const conv = (sessionId && getConversation(`${SESSION_PREFIX}${sessionId}`))
+    || createConversation({ id: `${SESSION_PREFIX}${uuidv4()}`, title: message.slice(0, 20) })
+  const history = [...toLLMHistory(conv), { role: 'user', content: message }]
+
+  const userMsg = {
+    id: uuidv4(), role: 'user', content: message, parentId: conv.currentLeafId ?? null, createdAt: Date.now(),
+  }
+  conv.messages.push(userMsg)
+  conv.currentLeafId = userMsg.id
+  conv.updatedAt = Date.now()
+  saveConversation(conv)
+
+  const assistantMsg = {
+    id: uuidv4(), role: 'assistant', content: '', toolCalls: [], parentId: userMsg.id, createdAt: Date.now(),
+  }
+
+  try {
+    const { tools: subAgentTools } = await loadSubAgentTools(config.subAgents || [])
+    const mcpTools = await loadMcpTools(config.mcpServers || [])
+    await runChat(model, history, subAgentTools, conv.subAgentSessions, (type, data) => {
+      collectEvent(assistantMsg, type, data)
+      if (type === 'usage') recordUsage({ ...data, source: 'willknow', conversationId: conv.id })
+      onEvent(type, data)
+    }, config.skills || [], {
+      signal,
+      systemPrompt: settings.systemPrompt,
+      fallbackModels,
+      files: listFiles(getConversationFilesDir(conv.id)),
+      knowledge: config.knowledge,
+      mcpTools,
+      compaction: conv.compaction,
+    })
+  } catch (err) {
+    if (signal?.aborted) assistantMsg.interrupted = true
+    else assistantMsg.error = err.message
+    throw err
+  } finally {
+    // 与 /api/chat 相同：重新读取后再追加，对话已被删除则不再写回
+    const latest = getConversation(conv.id)
+    if (latest) {
+      latest.messages.push(assistantMsg)
+      latest.currentLeafId = assistantMsg.id
+      latest.subAgentSessions = conv.subAgentSessions
+      latest.compaction = conv.compaction
+      latest.updatedAt = Date.now()
+      saveConversation(latest)
+    }
+  }
+
+  return { message: assistantMsg.content, session_id: conv.id.slice(SESSION_PREFIX.length) }
+}
@@ -0,0 +1,11 @@
+import { timingSafeEqual } from 'crypto'
+
+/**
+ * 常量时间比较密钥、token 与签名，避免按响应耗时逐字节猜测
+ * timingSafeEqual 要求字节长度相同，按 Buffer 比较长度（非 ASCII 字符的字符串长度与字节长度不同），不同时直接返回 false
+ */
+export function safeEqual(actual, expected) {
+  const a = Buffer.from(actual ?? '')
+  const b = Buffer.from(expected ?? '')
+  return a.length === b.length && timingSafeEqual(a, b)
+}
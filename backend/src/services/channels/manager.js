@@ -1,6 +1,12 @@
-import { QQChannel } from './qq.js'
+import { getChannelType } from './registry.js'
+import { getOrCreateSession, saveSession } from './sessions.js'
 import { loadSubAgentTools } from '../subagent.js'
+import { loadMcpTools } from '../mcp.js'
 import { runChat } from '../llm.js'
+import { recordUsage } from '../usage.js'
+import { saveImage, toContentBlocks } from '../images.js'
+import { getChannelFilesDir, saveFile, listFiles, withFileNote } from '../files.js'
+import { getModelChain } from '../../config/index.js'
 
 /**
  * Channel Manager：管理所有通道实例的生命周期
@@ -8,16 +14,17 @@ import { runChat } from '../llm.js'
  */
 class ChannelManager {
   constructor() {
-    // channelId -> QQChannel 实例
+    // channelId -> 通道实例（由 registry 中对应插件的 create() 创建）
     this.channels = new Map()
-    // chatId -> { history: [], subAgentSessions: {} }
-    this.sessions = new Map()
+    // 最新的应用配置（模型、SubAgent 等），配置变更后无需重启通道即可生效
+    this.appConfig = {}
   }
 
   /**
    * 根据最新配置同步通道（停止旧的，启动新的）
    */
   async sync(config) {
+    this.appConfig = config
     const newChannels = (config.channels || []).filter(c => c.enabled)
     const newIds = new Set(newChannels.map(c => c.id))
 
@@ -30,19 +37,18 @@ class ChannelManager {
       }
     }
 
-    // 启动新增或凭据变更的通道
+    // 启动新增或配置变更的通道
     for (const chConfig of newChannels) {
       const existing = this.channels.get(chConfig.id)
       if (existing) {
-        // 检查凭据是否变更，变更则重启
-        const cfg = chConfig.config || {}
-        if (existing._appId === cfg.appId && existing._clientSecret === cfg.appSecret) continue
-        console.log(`[ChannelManager] 凭据变更，重启通道 ${chConfig.id}`)
+        // 检查配置是否变更，变更则重启
+        if (existing._configKey === configKey(chConfig)) continue
+        console.log(`[ChannelManager] 配置变更，重启通道 ${chConfig.id}`)
         existing.stop()
         this.channels.delete(chConfig.id)
       }
       console.log(`[ChannelManager] 启动通道 ${chConfig.id} (${chConfig.type})`)
-      await this._startChannel(chConfig, config)
+      await this._startChannel(chConfig)
     }
   }
 
@@ -60,76 +66,155 @@ class ChannelManager {
   getStatus() {
     const result = {}
     for (const [id, ch] of this.channels.entries()) {
-      result[id] = { status: ch.status, error: ch.error || null }
+      result[id] = { status: ch.status, error: ch.error || null, stats: ch.stats || null }
     }
     return result
   }
 
+  /**
+   * 将 POST /api/channels/:id/webhook 转交给对应通道（Telegram webhook、Slack Events API 等）
+   */
+  handleWebhook(channelId, req, res) {
+    const channel = this.channels.get(channelId)
+    if (!channel?.handleWebhook) {
+      return res.status(404).json({ error: 'Channel not found or does not accept webhooks' })
+    }
+    channel.handleWebhook(req, res)
+  }
+
+  /**
+   * 将 POST /api/channels/:id/inbound 转交给对应通道（通用 Webhook 通道）
+   */
+  async handleInbound(channelId, req, res) {
+    const channel = this.channels.get(channelId)
+    if (!channel?.handleInbound) {
+      return res.status(404).json({ error: 'Channel not found or does not accept inbound messages' })
+    }
+    await channel.handleInbound(req, res)
+  }
+
+  /**
+   * 通过指定通道主动向某个会话发送消息
+   */
+  async send(channelId, chatId, text) {
+    const channel = this.channels.get(channelId)
+    if (!channel) throw new Error(`通道未启动: ${channelId}`)
+    await channel.send(chatId, text)
+  }
+
   // ── 私有方法 ──────────────────────────────────────────────
 
-  async _startChannel(chConfig, appConfig) {
-    if (chConfig.type !== 'qq') {
+  async _startChannel(chConfig) {
+    const plugin = await getChannelType(chConfig.type)
+    if (!plugin) {
       console.warn(`[ChannelManager] 不支持的通道类型: ${chConfig.type}`)
       return
     }
 
-    const channel = new QQChannel(
-      {
-        appId: chConfig.config?.appId,
-        clientSecret: chConfig.config?.appSecret,
-      },
-      (chatId, text) => this._handleMessage(chatId, text, appConfig)
-    )
-    // 记录凭据，供 sync() 对比是否变更
-    channel._appId = chConfig.config?.appId
-    channel._clientSecret = chConfig.config?.appSecret
+    const onMessage = (chatId, text, extra) => this._handleMessage(chConfig.id, chatId, text, extra)
+    const channel = plugin.create(chConfig.config || {}, onMessage, { id: chConfig.id })
+
+    // 记录配置快照，供 sync() 对比是否变更
+    channel._configKey = configKey(chConfig)
     this.channels.set(chConfig.id, channel)
 
     // 非阻塞启动（start 内部有 try/catch）
-    channel.start().catch(err => console.error(`[QQ:${chConfig.id}]`, err.message))
+    channel.start().catch(err => console.error(`[${chConfig.type}:${chConfig.id}]`, err.message))
   }
 
-  async _handleMessage(chatId, text, appConfig) {
-    // 取或建会话
-    if (!this.sessions.has(chatId)) {
-      this.sessions.set(chatId, { history: [], subAgentSessions: {} })
+  async _handleMessage(channelId, chatId, text, { images = [], files = [] } = {}) {
+    // 会话按 通道 ID + chatId 持久化，如 group:xxx、telegram:123、slack:C01:1700000000.0001（每个 Slack thread 独立）
+    const session = getOrCreateSession(channelId, chatId)
+    if (session.blocked) {
+      console.log(`[ChannelManager] 会话已屏蔽，忽略消息 ${channelId}/${chatId}`)
+      return null
     }
-    const session = this.sessions.get(chatId)
 
-    const model = appConfig.models?.find(m => m.isDefault) || appConfig.models?.[0]
+    const appConfig = this.appConfig
+    // 通道绑定（模型、系统提示词、技能 / SubAgent 白名单）取最新配置，修改后无需重启通道
+    const binding = appConfig.channels?.find(c => c.id === channelId) || {}
+    const models = appConfig.models || []
+    if (binding.modelId && !models.some(m => m.id === binding.modelId)) {
+      console.warn(`[ChannelManager] 绑定的模型 ${binding.modelId} 不存在，使用默认模型`)
+    }
+    const [model, ...fallbackModels] = getModelChain(models, binding.modelId)
     if (!model) return '请先在管理页面配置并设置默认模型。'
 
-    // 加载 SubAgent tools
-    const { tools: subAgentTools } = await loadSubAgentTools(appConfig.subAgents || [])
-
-    // 追加用户消息
-    session.history.push({ role: 'user', content: text })
+    // 加载 SubAgent / MCP tools
+    const { tools: subAgentTools } = await loadSubAgentTools(filterAllowed(appConfig.subAgents || [], binding.allowedSubAgents))
+    const mcpTools = await loadMcpTools(appConfig.mcpServers || [])
+    const skills = filterAllowed(appConfig.skills || [], binding.allowedSkills)
+
+    // 追加用户消息（图片保存到 DATA_DIR/images，会话中只记录 ID）
+    const imageIds = []
+    for (const image of images) {
+      try {
+        imageIds.push(saveImage(image.data, image.mediaType))
+      } catch (err) {
+        console.warn('[ChannelManager] 保存图片失败:', err.message)
+      }
+    }
+    // 附件保存到该会话的附件目录，执行技能脚本时挂载
+    const filesDir = getChannelFilesDir(channelId, chatId)
+    const fileNames = []
+    for (const file of files) {
+      try {
+        fileNames.push(saveFile(filesDir, file.name, file.data).name)
+      } catch (err) {
+        console.warn('[ChannelManager] 保存附件失败:', err.message)
+      }
+    }
+    if (!text && imageIds.length === 0 && fileNames.length === 0) return null
+    const userMsg = { role: 'user', content: text || '', createdAt: Date.now() }
+    if (imageIds.length) userMsg.images = imageIds
+    if (fileNames.length) userMsg.files = fileNames
+    session.messages.push(userMsg)
 
     // 收集 LLM 回复
     let fullText = ''
     try {
-      await runChat(model, session.history, subAgentTools, session.subAgentSessions, (type, data) => {
+      await runChat(model, toLLMHistory(session.messages), subAgentTools, session.subAgentSessions, (type, data) => {
         if (type === 'text') fullText += data.content
+        else if (type === 'usage') recordUsage({ ...data, source: 'channel', channelId, chatId })
+      }, skills, {
+        systemPrompt: binding.systemPrompt, fallbackModels, files: listFiles(filesDir), knowledge: appConfig.knowledge, mcpTools,
+        compaction: session.compaction,
       })
     } catch (err) {
       console.error('[ChannelManager] LLM error:', err.message)
-      session.history.pop()  // 回滚用户消息，避免脏历史
+      // 回滚用户消息，避免脏历史（同一会话可能有并发消息，按对象移除；期间会话被重置时已不在历史中）
+      const index = session.messages.indexOf(userMsg)
+      if (index >= 0) session.messages.splice(index, 1)
       return `处理失败: ${err.message}`
     }
 
     // 追加助手回复到历史
     if (fullText) {
-      session.history.push({ role: 'assistant', content: fullText })
-    }
-
-    // 限制历史长度，避免 token 过多（保留最近 40 条）
-    if (session.history.length > 40) {
-      session.history = session.history.slice(-40)
+      session.messages.push({ role: 'assistant', content: fullText, createdAt: Date.now() })
     }
+    saveSession(session)
 
     return fullText || '（无响应）'
   }
 }
 
+/**
+ * 按白名单过滤技能 / SubAgent；未设置白名单（undefined）时不限制
+ */
+function filterAllowed(items, allowedIds) {
+  return Array.isArray(allowedIds) ? items.filter(item => allowedIds.includes(item.id)) : items
+}
+
+/**
+ * 会话记录转为 LLM 历史；超出模型上下文窗口时由 runChat 压缩（见 services/context.js）
+ */
+function toLLMHistory(messages) {
+  return messages.map(m => ({ role: m.role, content: toContentBlocks(withFileNote(m.content, m.files), m.images) }))
+}
+
+function configKey(chConfig) {
+  return JSON.stringify({ type: chConfig.type, config: chConfig.config || {} })
+}
+
 // 单例导出
 export const channelManager = new ChannelManager()
@@ -1,21 +1,54 @@
 import WebSocket from 'ws'
 import fetch from 'node-fetch'
+import { splitMessage } from './split.js'
+import { IMAGE_TYPES, MAX_IMAGE_BYTES } from '../images.js'
+import { MAX_FILE_BYTES } from '../files.js'
 
-const QQ_API = 'https://api.sgroup.qq.com'
-const QQ_TOKEN_URL = 'https://bots.qq.com/app/getAppAccessToken'
+const DEFAULT_API_BASE = 'https://api.sgroup.qq.com'
+const DEFAULT_TOKEN_URL = 'https://bots.qq.com/app/getAppAccessToken'
 
 // GROUP_AT_MESSAGE_CREATE + C2C_MESSAGE_CREATE
 const INTENT_GROUP_AND_C2C = 1 << 25
 
+// 重连退避：从 1 秒开始指数增长，最长 60 秒，并叠加随机抖动
+const RECONNECT_BASE_DELAY = 1000
+const RECONNECT_MAX_DELAY = 60000
+
+// 永久性错误，不再重连：Invalid Intent / Disallowed Intent / 机器人已下架 / 机器人已封禁
+const PERMANENT_CLOSE_CODES = [4013, 4014, 4914, 4915]
+// 会话已失效，无法 Resume，需重新 Identify：Invalid Session / Invalid Seq / Session Timeout
+const SESSION_INVALID_CLOSE_CODES = [4006, 4007, 4009]
+// 鉴权失败，重连前先刷新 Token
+const AUTH_FAILED_CLOSE_CODE = 4004
+
+// 单条消息最大字符数
+const MESSAGE_LIMIT = 2000
+// 被动回复：同一 msg_id 最多回复 5 条（群聊 5 分钟内、私聊 60 分钟内有效）
+const MAX_REPLIES = 5
+
+// msg_type
+const MSG_TEXT = 0
+const MSG_MARKDOWN = 2
+const MSG_MEDIA = 7
+
 /**
  * QQ 机器人通道
  * 通过 WebSocket 接收消息，通过 HTTP 回复消息
+ * 断线后按指数退避重连，并通过 Resume 恢复会话，避免丢失断线期间的消息
+ * 长回复按段落拆分为多条（msg_seq 递增），回复中的 Markdown 图片会上传为富媒体消息
  */
 export class QQChannel {
   constructor(config, onMessage) {
     this.appId = config.appId
     this.clientSecret = config.clientSecret
-    // onMessage: async (chatId, text) => string
+    // 使用 QQ 原生 Markdown（msg_type 2，需开通权限），否则转为纯文本
+    this.markdown = !!config.markdown
+    // 可替换为本地模拟服务地址，便于测试
+    this.apiBase = (config.apiBase || DEFAULT_API_BASE).replace(/\/$/, '')
+    this.tokenUrl = config.tokenUrl || DEFAULT_TOKEN_URL
+    // 指定后直接连接该地址，不再通过 /gateway/bot 获取
+    this.gatewayUrl = config.gatewayUrl
+    // onMessage: async (chatId, text, { images, files }) => string | null（null 表示不回复，如会话已被屏蔽）
     this.onMessage = onMessage
 
     this.accessToken = null
@@ -24,10 +57,19 @@ export class QQChannel {
     this.lastSeq = null
     this.heartbeatTimer = null
     this.tokenRefreshTimer = null
+    this.reconnectTimer = null
     this.botId = null
 
+    // 连续重连失败次数，决定下一次退避时长，连接就绪后清零
+    this.reconnectAttempts = 0
+    this._heartbeatAcked = true
+    this._tokenExpired = false
+    this._tokenPromise = null
+
     this.status = 'disconnected'  // disconnected | connecting | connected | error
     this.error = null
+    // 累计重连 / 会话恢复次数，通过 getStatus() 展示
+    this.stats = { reconnects: 0, resumes: 0 }
     this._stopped = false
   }
 
@@ -42,6 +84,9 @@ export class QQChannel {
       this.status = 'error'
       this.error = err.message
       console.error('[QQ] Start failed:', err.message)
+      // 首次连接失败（如启动时网络不可用）同样按退避重试；尚未取得 Token 时重连前先获取
+      if (!this.accessToken) this._tokenExpired = true
+      this._scheduleReconnect()
     }
   }
 
@@ -49,8 +94,10 @@ export class QQChannel {
     this._stopped = true
     clearInterval(this.heartbeatTimer)
     clearTimeout(this.tokenRefreshTimer)
+    clearTimeout(this.reconnectTimer)
     this.heartbeatTimer = null
     this.tokenRefreshTimer = null
+    this.reconnectTimer = null
     if (this.ws) {
       this.ws.terminate()
       this.ws = null
@@ -58,45 +105,85 @@ export class QQChannel {
     this.status = 'disconnected'
   }
 
+  /**
+   * 主动发送消息（不带 msg_id，受 QQ 主动消息配额限制）
+   * chatId 格式：group:<group_openid> 或 c2c:<user_openid>
+   */
+  async send(chatId, text) {
+    const [kind, openid] = chatId.split(':')
+    if (kind !== 'group' && kind !== 'c2c') throw new Error(`无效的 QQ chatId: ${chatId}`)
+    await this._sendReply({ kind, openid }, undefined, text)
+  }
+
   // ── Token 管理 ─────────────────────────────────────────
 
-  async _refreshToken() {
-    const res = await fetch(QQ_TOKEN_URL, {
+  _refreshToken() {
+    // 定时刷新与 401 触发的刷新可能同时发生，共用同一次请求
+    if (!this._tokenPromise) {
+      this._tokenPromise = this._fetchToken().finally(() => { this._tokenPromise = null })
+    }
+    return this._tokenPromise
+  }
+
+  async _fetchToken() {
+    const res = await fetch(this.tokenUrl, {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify({ appId: this.appId, clientSecret: this.clientSecret }),
+      signal: AbortSignal.timeout(15000),
     })
     const data = await res.json()
     if (!data.access_token) throw new Error(`获取 Token 失败: ${JSON.stringify(data)}`)
 
     this.accessToken = data.access_token
+    this._tokenExpired = false
     const expiresIn = parseInt(data.expires_in) || 7200
     // 提前 2 分钟刷新
-    this.tokenRefreshTimer = setTimeout(
-      () => !this._stopped && this._refreshToken(),
-      (expiresIn - 120) * 1000
-    )
+    clearTimeout(this.tokenRefreshTimer)
+    this.tokenRefreshTimer = setTimeout(() => this._scheduledRefresh(), Math.max(expiresIn - 120, 60) * 1000)
     console.log('[QQ] Access token 已刷新')
   }
 
+  _scheduledRefresh() {
+    if (this._stopped) return
+    this._refreshToken().catch(err => {
+      // 刷新失败 30 秒后重试；期间的请求若返回 401 也会触发刷新
+      console.error('[QQ] 刷新 Token 失败:', err.message)
+      this.tokenRefreshTimer = setTimeout(() => this._scheduledRefresh(), 30000)
+    })
+  }
+
+  /**
+   * 带鉴权的 HTTP 请求，Token 过期（401）时刷新后重试一次
+   */
+  async _request(path, init = {}) {
+    const send = () => fetch(`${this.apiBase}${path}`, {
+      ...init,
+      headers: { ...init.headers, 'Authorization': `QQBot ${this.accessToken}` },
+      signal: AbortSignal.timeout(15000),
+    })
+    let res = await send()
+    if (res.status === 401) {
+      console.warn(`[QQ] ${path} 返回 401，刷新 Token 后重试`)
+      await this._refreshToken()
+      res = await send()
+    }
+    return res
+  }
+
   // ── WebSocket 连接 ──────────────────────────────────────
 
   async _connect() {
     if (this._stopped) return
 
-    // 获取网关地址
-    const gatewayRes = await fetch(`${QQ_API}/gateway/bot`, {
-      headers: { 'Authorization': `QQBot ${this.accessToken}` },
-    })
-    const gateway = await gatewayRes.json()
-    if (!gateway.url) throw new Error(`获取网关失败: ${JSON.stringify(gateway)}`)
-
-    console.log('[QQ] 连接 WebSocket:', gateway.url)
-    this.ws = new WebSocket(gateway.url)
+    const url = this.gatewayUrl || await this._getGatewayUrl()
+    console.log('[QQ] 连接 WebSocket:', url)
+    const ws = new WebSocket(url)
+    this.ws = ws
 
-    this.ws.on('open', () => console.log('[QQ] WebSocket 已连接，正在鉴权...'))
+    ws.on('open', () => console.log(`[QQ] WebSocket 已连接，正在${this.sessionId ? '恢复会话' : '鉴权'}...`))
 
-    this.ws.on('message', raw => {
+    ws.on('message', raw => {
       try {
         const msg = JSON.parse(raw.toString())
         this._handleWsMessage(msg)
@@ -105,34 +192,86 @@ export class QQChannel {
       }
     })
 
-    this.ws.on('close', (code, reason) => {
+    ws.on('close', (code, reason) => {
       const reasonStr = reason?.toString() || ''
       console.log(`[QQ] WebSocket 断开，code=${code}${reasonStr ? ' reason=' + reasonStr : ''}`)
+      // 已被新连接替换（如心跳超时后重连）的旧连接不再处理
+      if (this._stopped || ws !== this.ws) return
       clearInterval(this.heartbeatTimer)
       this.heartbeatTimer = null
+      this.ws = null
 
-      if (this._stopped) return
-
-      // 永久性错误不重试
-      const PERMANENT_ERRORS = [4013, 4014] // Invalid Intent / Disallowed Intent
-      if (PERMANENT_ERRORS.includes(code)) {
+      if (PERMANENT_CLOSE_CODES.includes(code)) {
         this.status = 'error'
         this.error = `连接被拒绝 (code=${code})：${reasonStr || '请检查机器人权限配置'}`
         console.error('[QQ] 永久性错误，停止重连:', this.error)
         return
       }
+      if (SESSION_INVALID_CLOSE_CODES.includes(code)) this._resetSession()
+      if (code === AUTH_FAILED_CLOSE_CODE) this._tokenExpired = true
 
-      this.status = 'connecting'
-      setTimeout(() => !this._stopped && this._connect(), 5000)
+      this._scheduleReconnect()
     })
 
-    this.ws.on('error', err => {
+    ws.on('error', err => {
       console.error('[QQ] WebSocket 错误:', err.message)
       this.status = 'error'
       this.error = err.message
     })
   }
 
+  async _getGatewayUrl() {
+    const res = await this._request('/gateway/bot')
+    const gateway = await res.json()
+    if (!gateway.url) throw new Error(`获取网关失败: ${JSON.stringify(gateway)}`)
+    return gateway.url
+  }
+
+  _scheduleReconnect() {
+    if (this._stopped) return
+    this.status = 'connecting'
+    const delay = backoffDelay(this.reconnectAttempts++)
+    console.log(`[QQ] ${(delay / 1000).toFixed(1)} 秒后重连（第 ${this.reconnectAttempts} 次尝试）`)
+    clearTimeout(this.reconnectTimer)
+    this.reconnectTimer = setTimeout(() => this._reconnect(), delay)
+  }
+
+  async _reconnect() {
+    if (this._stopped) return
+    this.stats.reconnects++
+    try {
+      if (this._tokenExpired) await this._refreshToken()
+      await this._connect()
+    } catch (err) {
+      this.status = 'error'
+      this.error = err.message
+      console.error('[QQ] 重连失败:', err.message)
+      this._scheduleReconnect()
+    }
+  }
+
+  // 会话无法恢复，下次连接重新 Identify
+  _resetSession() {
+    this.sessionId = null
+    this.lastSeq = null
+  }
+
+  _startHeartbeat(interval) {
+    clearInterval(this.heartbeatTimer)
+    this._heartbeatAcked = true
+    this.heartbeatTimer = setInterval(() => {
+      if (this.ws?.readyState !== WebSocket.OPEN) return
+      // 上一次心跳未收到 ACK，视为连接已失效：断开后由 close 事件重连并 Resume
+      if (!this._heartbeatAcked) {
+        console.warn('[QQ] 心跳超时，重新连接...')
+        this.ws.terminate()
+        return
+      }
+      this._heartbeatAcked = false
+      this.ws.send(JSON.stringify({ op: 1, d: this.lastSeq }))
+    }, interval)
+  }
+
   // ── WebSocket 消息处理 ──────────────────────────────────
 
   _handleWsMessage(msg) {
@@ -142,37 +281,51 @@ export class QQChannel {
     if (s != null) this.lastSeq = s
 
     if (op === 10) {
-      // Hello：启动心跳 + 鉴权
-      const interval = d.heartbeat_interval
-      this.heartbeatTimer = setInterval(() => {
-        if (this.ws?.readyState === WebSocket.OPEN) {
-          this.ws.send(JSON.stringify({ op: 1, d: this.lastSeq }))
-        }
-      }, interval)
-
-      this.ws.send(JSON.stringify({
-        op: 2,
-        d: {
-          token: `QQBot ${this.accessToken}`,
-          intents: INTENT_GROUP_AND_C2C,
-          shard: [0, 1],
-        },
-      }))
+      // Hello：启动心跳；有可恢复的会话时 Resume，否则 Identify
+      this._startHeartbeat(d.heartbeat_interval)
+      if (this.sessionId) {
+        this.ws.send(JSON.stringify({
+          op: 6,
+          d: {
+            token: `QQBot ${this.accessToken}`,
+            session_id: this.sessionId,
+            seq: this.lastSeq,
+          },
+        }))
+      } else {
+        this.ws.send(JSON.stringify({
+          op: 2,
+          d: {
+            token: `QQBot ${this.accessToken}`,
+            intents: INTENT_GROUP_AND_C2C,
+            shard: [0, 1],
+          },
+        }))
+      }
     } else if (op === 11) {
-      // Heartbeat ACK - 正常，不需要打印
+      // Heartbeat ACK
+      this._heartbeatAcked = true
+    } else if (op === 7) {
+      // 服务端要求重连：关闭当前连接，由 close 事件重连并 Resume
+      console.log('[QQ] 收到 Reconnect，准备重连...')
+      this.ws?.close()
     } else if (op === 9) {
-      // Invalid session：关闭当前连接，由 close 事件处理重连（避免竞争）
+      // Invalid session：不可恢复时清除会话；关闭当前连接，由 close 事件处理重连（避免竞争）
       const resumable = d === true
       console.warn(`[QQ] Invalid Session (resumable=${resumable})，关闭当前连接...`)
+      if (!resumable) this._resetSession()
       this.ws?.close()
     } else if (op === 0) {
       // Dispatch
       if (t === 'READY') {
         this.sessionId = d.session_id
         this.botId = d.user?.id
-        this.status = 'connected'
-        this.error = null
+        this._onReady()
         console.log(`[QQ] Bot 就绪，botId=${this.botId}，session=${this.sessionId}`)
+      } else if (t === 'RESUMED') {
+        this.stats.resumes++
+        this._onReady()
+        console.log(`[QQ] 会话已恢复，session=${this.sessionId}，seq=${this.lastSeq}`)
       } else if (t === 'GROUP_AT_MESSAGE_CREATE') {
         this._handleGroupMessage(d)
       } else if (t === 'C2C_MESSAGE_CREATE') {
@@ -183,19 +336,25 @@ export class QQChannel {
     }
   }
 
+  _onReady() {
+    this.status = 'connected'
+    this.error = null
+    this.reconnectAttempts = 0
+  }
+
   // ── 消息处理 ────────────────────────────────────────────
 
   async _handleGroupMessage(d) {
     // 去掉 @bot 标记，提取纯文本
     const text = (d.content || '').replace(/<@!\d+>/g, '').trim()
-    if (!text) return
+    if (!text && !hasAttachments(d)) return
 
     const chatId = `group:${d.group_openid}`
     console.log(`[QQ] 群消息 [${d.group_openid}]: ${text}`)
 
     try {
-      const reply = await this.onMessage(chatId, text)
-      await this._sendGroupMessage(d.group_openid, d.id, reply)
+      const reply = await this.onMessage(chatId, text, await downloadAttachments(d))
+      if (reply) await this._sendReply({ kind: 'group', openid: d.group_openid }, d.id, reply)
     } catch (err) {
       console.error('[QQ] 处理群消息失败:', err.message)
     }
@@ -203,7 +362,7 @@ export class QQChannel {
 
   async _handleC2CMessage(d) {
     const text = (d.content || '').trim()
-    if (!text) return
+    if (!text && !hasAttachments(d)) return
 
     // C2C 事件中用户 ID 在 d.author.id 或 d.from_openid
     const userOpenid = d.author?.id || d.from_openid
@@ -216,8 +375,8 @@ export class QQChannel {
     console.log(`[QQ] 私聊消息 [${userOpenid}]: ${text}`)
 
     try {
-      const reply = await this.onMessage(chatId, text)
-      await this._sendC2CMessage(userOpenid, d.id, reply)
+      const reply = await this.onMessage(chatId, text, await downloadAttachments(d))
+      if (reply) await this._sendReply({ kind: 'c2c', openid: userOpenid }, d.id, reply)
     } catch (err) {
       console.error('[QQ] 处理私聊消息失败:', err.message)
     }
@@ -225,36 +384,204 @@ export class QQChannel {
 
   // ── 消息发送 ────────────────────────────────────────────
 
-  async _sendGroupMessage(groupOpenid, msgId, content) {
-    // QQ 单条消息最多 2000 字符
-    const text = content.slice(0, 2000)
-    const res = await fetch(`${QQ_API}/v2/groups/${groupOpenid}/messages`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `QQBot ${this.accessToken}`,
-      },
-      body: JSON.stringify({ content: text, msg_type: 0, msg_id: msgId }),
-    })
-    if (!res.ok) {
-      const err = await res.text()
-      console.error('[QQ] 发送群消息失败:', err)
+  /**
+   * 发送回复：文本按段落拆分为多条，图片逐张上传后以富媒体消息发送
+   * target: { kind: 'group' | 'c2c', openid }；msgId 为空时为主动消息
+   */
+  async _sendReply(target, msgId, content) {
+    const { text, images } = extractImages(content)
+    let chunks = text ? splitMessage(text, MESSAGE_LIMIT) : []
+
+    // 被动回复条数有限：优先保证文本（超出部分截断并提示），剩余条数用于图片
+    if (msgId) {
+      if (chunks.length > MAX_REPLIES) {
+        console.warn(`[QQ] 回复需 ${chunks.length} 条消息，超出被动回复上限，已截断`)
+        chunks = chunks.slice(0, MAX_REPLIES)
+        chunks[MAX_REPLIES - 1] = chunks[MAX_REPLIES - 1].slice(0, MESSAGE_LIMIT - 20) + '\n\n（内容过长，后续已省略）'
+      }
+      images.splice(MAX_REPLIES - chunks.length)
+    }
+
+    // 同一 msg_id 的多条回复需用不同的 msg_seq，否则会被判定为重复消息
+    let seq = 0
+    for (const chunk of chunks) {
+      await this._sendText(target, { msg_id: msgId, msg_seq: ++seq }, chunk)
+    }
+    for (const src of images) {
+      try {
+        const fileInfo = await this._uploadImage(target, src)
+        await this._postMessage(target, { content: ' ', msg_type: MSG_MEDIA, media: { file_info: fileInfo }, msg_id: msgId, msg_seq: ++seq })
+      } catch (err) {
+        console.error('[QQ] 发送图片失败:', err.message)
+      }
     }
   }
 
-  async _sendC2CMessage(userOpenid, msgId, content) {
-    const text = content.slice(0, 2000)
-    const res = await fetch(`${QQ_API}/v2/users/${userOpenid}/messages`, {
+  async _sendText(target, ref, chunk) {
+    if (this.markdown) {
+      try {
+        return await this._postMessage(target, { msg_type: MSG_MARKDOWN, markdown: { content: chunk }, ...ref })
+      } catch (err) {
+        // 未开通 Markdown 权限等情况退回纯文本
+        console.warn('[QQ] Markdown 发送失败，改用纯文本:', err.message)
+      }
+    }
+    await this._postMessage(target, { content: toQQText(chunk), msg_type: MSG_TEXT, ...ref })
+  }
+
+  // 上传图片（URL 或 data URI），返回发送富媒体消息所需的 file_info
+  async _uploadImage(target, src) {
+    const source = src.startsWith('data:')
+      ? { file_data: src.slice(src.indexOf(',') + 1) }
+      : { url: src }
+    const data = await this._api(`${targetPath(target)}/files`, { file_type: 1, srv_send_msg: false, ...source })
+    if (!data.file_info) throw new Error(`上传图片失败: ${JSON.stringify(data)}`)
+    return data.file_info
+  }
+
+  _postMessage(target, body) {
+    return this._api(`${targetPath(target)}/messages`, body)
+  }
+
+  async _api(path, body) {
+    const res = await this._request(path, {
       method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `QQBot ${this.accessToken}`,
-      },
-      body: JSON.stringify({ content: text, msg_type: 0, msg_id: msgId }),
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
     })
-    if (!res.ok) {
-      const err = await res.text()
-      console.error('[QQ] 发送私聊消息失败:', err)
+    const text = await res.text()
+    if (!res.ok) throw new Error(`HTTP ${res.status}: ${text.slice(0, 300)}`)
+    return text ? JSON.parse(text) : {}
+  }
+}
+
+function targetPath({ kind, openid }) {
+  return kind === 'group' ? `/v2/groups/${openid}` : `/v2/users/${openid}`
+}
+
+// 指数退避 + 随机抖动：取 [delay/2, delay) 区间内的随机值，避免大量客户端同时重连
+function backoffDelay(attempt) {
+  const delay = Math.min(RECONNECT_MAX_DELAY, RECONNECT_BASE_DELAY * 2 ** attempt)
+  return delay / 2 + Math.random() * delay / 2
+}
+
+// ── 收到的附件 ──────────────────────────────────────────
+
+function hasAttachments(d) {
+  return (d.attachments || []).some(a => a.url)
+}
+
+/**
+ * 下载消息中的附件：图片返回 images [{ data: Buffer, mediaType }]（发给模型），
+ * 其他文件返回 files [{ name, data: Buffer }]（供技能脚本使用）；
+ * 单个下载失败或超出大小时跳过，不影响文字消息的处理
+ */
+async function downloadAttachments(d) {
+  const images = []
+  const files = []
+  for (const a of (d.attachments || []).filter(a => a.url)) {
+    const isImage = !!IMAGE_TYPES[a.content_type]
+    // QQ 返回的附件 URL 可能不带协议
+    const url = /^https?:\/\//.test(a.url) ? a.url : `https://${a.url.replace(/^\/\//, '')}`
+    try {
+      const res = await fetch(url, { signal: AbortSignal.timeout(30000), size: isImage ? MAX_IMAGE_BYTES : MAX_FILE_BYTES })
+      if (!res.ok) throw new Error(`HTTP ${res.status}`)
+      const data = Buffer.from(await res.arrayBuffer())
+      if (isImage) images.push({ data, mediaType: a.content_type })
+      else files.push({ name: a.filename || `file-${Date.now()}`, data })
+    } catch (err) {
+      console.error(`[QQ] 下载附件失败 ${a.filename || url}:`, err.message)
     }
   }
+  return { images, files }
+}
+
+// ── 回复内容处理 ──────────────────────────────────────────
+
+/**
+ * 提取回复中的 Markdown 图片（http(s) 链接或 data URI），
+ * 图片从文本中移除（有 alt 文字时保留 alt）
+ */
+export function extractImages(md) {
+  const images = []
+  const text = md.replace(/!\[([^\]]*)\]\(((?:https?:\/\/|data:image\/)[^)\s]+)(?:\s+"[^"]*")?\)/g, (_, alt, src) => {
+    images.push(src)
+    return alt
+  })
+  return { text: text.replace(/\n{3,}/g, '\n\n').trim(), images }
+}
+
+/**
+ * 将 Markdown 转换为适合 QQ 纯文本消息的格式（去掉格式符号，保留内容）
+ */
+export function toQQText(md) {
+  return md.split(/(```[^\n]*\n[\s\S]*?```)/g).map(part => {
+    const fence = part.match(/^```[^\n]*\n([\s\S]*?)\n?```$/)
+    if (fence) return fence[1]
+    return part
+      .replace(/`([^`\n]+)`/g, '$1')
+      .replace(/^#{1,6}\s+/gm, '')
+      .replace(/\*\*(.+?)\*\*|__(.+?)__/g, '$1$2')
+      .replace(/(^|[^*])\*(?!\s)([^*\n]+?)\*(?!\*)/g, '$1$2')
+      .replace(/~~(.+?)~~/g, '$1')
+      .replace(/^(\s*)[-*+]\s+/gm, '$1• ')
+      .replace(/^>\s?/gm, '')
+      .replace(/\[([^\]]+)\]\((https?:\/\/[^)\s]+)\)/g, '$1 ($2)')
+  }).join('')
+}
+
+export default {
+  type: 'qq',
+  label: 'QQ 机器人',
+  icon: 'qq',
+  schema: {
+    type: 'object',
+    required: ['appId', 'appSecret'],
+    properties: {
+      appId: {
+        type: 'string',
+        title: 'App ID',
+        'x-summary': true,
+        'x-placeholder': 'QQ 开放平台的 App ID',
+      },
+      appSecret: {
+        type: 'string',
+        title: 'App Secret',
+        format: 'password',
+        description: '在 QQ 开放平台 → 我的应用 → 开发配置 中获取',
+        'x-placeholder': 'App Secret (clientSecret)',
+      },
+      messageFormat: {
+        type: 'string',
+        title: '回复格式',
+        enum: ['text', 'markdown'],
+        enumNames: ['纯文本（自动去除 Markdown 符号）', 'Markdown（需开通机器人 Markdown 权限）'],
+        default: 'text',
+      },
+      apiBase: {
+        type: 'string',
+        title: 'API 地址（可选）',
+        'x-placeholder': DEFAULT_API_BASE,
+      },
+      tokenUrl: {
+        type: 'string',
+        title: 'Token 地址（可选）',
+        'x-placeholder': DEFAULT_TOKEN_URL,
+      },
+      gatewayUrl: {
+        type: 'string',
+        title: '网关地址（可选）',
+        description: '指定后直接连接该 WebSocket 地址，不再通过 /gateway/bot 获取，可用于对接本地模拟网关',
+        'x-placeholder': 'wss://api.sgroup.qq.com/websocket',
+      },
+    },
+  },
+  create: (config, onMessage) => new QQChannel({
+    appId: config.appId,
+    clientSecret: config.appSecret,
+    markdown: config.messageFormat === 'markdown',
+    apiBase: config.apiBase,
+    tokenUrl: config.tokenUrl,
+    gatewayUrl: config.gatewayUrl,
+  }, onMessage),
 }
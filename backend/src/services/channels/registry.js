@@ -0,0 +1,80 @@
+import { readdirSync } from 'fs'
+import { fileURLToPath, pathToFileURL } from 'url'
+import { dirname, join } from 'path'
+
+const __dirname = dirname(fileURLToPath(import.meta.url))
+
+/**
+ * 通道插件注册表
+ *
+ * 本目录下任何 default export 为通道插件的模块都会被自动注册，
+ * 新增一种通道只需新建一个文件：
+ *
+ *   export default {
+ *     type: 'wechat',                   // 唯一类型标识，对应 ChannelConfig.type
+ *     label: '微信机器人',                // 设置页显示名称
+ *     icon: 'wechat',                   // 前端图标名（可选）
+ *     schema: { type: 'object', ... },  // ChannelConfig.config 的 JSON Schema，设置页据此渲染表单
+ *     create: (config, onMessage, { id }) => channel,  // id 为通道配置 ID
+ *   }
+ *
+ * create 返回的通道实例需实现：
+ *   - start(): Promise<void>      连接/开始接收消息（内部自行处理错误并更新 status）
+ *   - stop(): void                断开连接
+ *   - status / error              'disconnected' | 'connecting' | 'connected' | 'error'，及错误信息
+ *   - stats                       （可选）计数统计，如 { reconnects, resumes }，随通道状态返回
+ *   - send(chatId, text)          主动向会话发送消息
+ *   - handleWebhook(req, res)     （可选）处理 POST /api/channels/:id/webhook（平台推送）
+ *   - handleInbound(req, res)     （可选）处理 POST /api/channels/:id/inbound（通用 JSON 消息）
+ * onMessage 签名为 async (chatId, text, { images, files }) => replyText | null（null 表示不回复，如会话已被屏蔽），
+ * chatId 在通道内唯一即可（如 group:xxx、telegram:123），会话按 通道 ID + chatId 存储；
+ * images / files 可选，为收到的图片 [{ data: Buffer, mediaType }] 和附件 [{ name, data: Buffer }]，此时 text 可以为空。
+ *
+ * Schema 除标准字段（title / description / enum / default / format: 'password'）外支持扩展：
+ *   - enumNames:   enum 各项的显示名称
+ *   - x-showIf:    { 字段名: 值 }，仅当其他字段取该值时显示（隐藏时不校验 required）
+ *   - x-summary:   在通道列表中展示该字段
+ *   - x-placeholder: 输入框占位提示
+ *   - x-multiline: 使用多行输入框
+ * description 中的 {webhookPath} 会被替换为该通道的 /api/channels/<id>/webhook 路径，{channelId} 替换为通道 ID。
+ */
+
+// 非插件的辅助模块
+const SKIP = new Set(['registry.js', 'manager.js'])
+
+let loading = null
+
+function loadPlugins() {
+  if (!loading) {
+    loading = (async () => {
+      const plugins = new Map()
+      const files = readdirSync(__dirname).filter(f => f.endsWith('.js') && !SKIP.has(f)).sort()
+      for (const file of files) {
+        const mod = await import(pathToFileURL(join(__dirname, file)).href)
+        const plugin = mod.default
+        if (!plugin?.type || typeof plugin.create !== 'function') continue
+        if (plugins.has(plugin.type)) {
+          console.warn(`[ChannelRegistry] 通道类型重复: ${plugin.type}（${file}），已忽略`)
+          continue
+        }
+        plugins.set(plugin.type, plugin)
+      }
+      return plugins
+    })()
+  }
+  return loading
+}
+
+/**
+ * 按类型获取通道插件，不存在时返回 null
+ */
+export async function getChannelType(type) {
+  return (await loadPlugins()).get(type) || null
+}
+
+/**
+ * 列出所有通道类型（供 GET /api/channels/types，不含 create）
+ */
+export async function listChannelTypes() {
+  return [...(await loadPlugins()).values()].map(({ type, label, icon, schema }) => ({ type, label, icon, schema }))
+}
@@ -0,0 +1,140 @@
+import { readFileSync, writeFileSync, readdirSync, mkdirSync, existsSync } from 'fs'
+import { join } from 'path'
+import { DATA_DIR } from '../../config/index.js'
+import { getChannelFilesDir, removeFiles } from '../files.js'
+
+const SESSIONS_DIR = join(DATA_DIR, 'channel-sessions')
+
+// 通道 ID 只允许字母数字、下划线和连字符，防止路径穿越
+const ID_PATTERN = /^[\w-]+$/
+
+/**
+ * 通道会话存储：每个通道一个目录，每个会话（chatId）一个 JSON 文件
+ * chatId 含 : 等字符，文件名使用其 base64url 编码
+ *
+ * 会话结构：{ channelId, chatId, messages: [{ role, content, createdAt }], subAgentSessions, compaction, blocked, createdAt, updatedAt }
+ * messages 保存完整记录，发给 LLM 时再截取
+ */
+
+// 已加载的会话缓存，保证同一会话的并发消息读写的是同一个对象
+const cache = new Map()
+
+function channelDir(channelId) {
+  if (!ID_PATTERN.test(channelId)) throw new Error(`Invalid channel id: ${channelId}`)
+  return join(SESSIONS_DIR, channelId)
+}
+
+function sessionPath(channelId, chatId) {
+  return join(channelDir(channelId), `${Buffer.from(chatId).toString('base64url')}.json`)
+}
+
+function cacheKey(channelId, chatId) {
+  return `${channelId}\n${chatId}`
+}
+
+function load(channelId, chatId) {
+  const key = cacheKey(channelId, chatId)
+  if (cache.has(key)) return cache.get(key)
+  const path = sessionPath(channelId, chatId)
+  if (!existsSync(path)) return null
+  const session = JSON.parse(readFileSync(path, 'utf-8'))
+  if (!session.compaction) session.compaction = {}
+  cache.set(key, session)
+  return session
+}
+
+/**
+ * 会话摘要（列表使用，不含消息正文）
+ */
+function toSummary(session) {
+  const last = session.messages[session.messages.length - 1]
+  return {
+    chatId: session.chatId,
+    messageCount: session.messages.length,
+    lastMessage: last ? last.content.slice(0, 100) : '',
+    blocked: !!session.blocked,
+    createdAt: session.createdAt,
+    updatedAt: session.updatedAt,
+  }
+}
+
+/**
+ * 取会话，不存在时创建（调用 saveSession 后才写入磁盘）
+ */
+export function getOrCreateSession(channelId, chatId) {
+  const existing = load(channelId, chatId)
+  if (existing) return existing
+  const now = Date.now()
+  const session = {
+    channelId,
+    chatId,
+    messages: [],
+    // SubAgent session 状态（会话级别复用）：{ subAgentId: sessionId }
+    subAgentSessions: {},
+    // 上下文压缩的摘要（见 compactHistory）
+    compaction: {},
+    blocked: false,
+    createdAt: now,
+    updatedAt: now,
+  }
+  cache.set(cacheKey(channelId, chatId), session)
+  return session
+}
+
+/**
+ * 读取会话，不存在时返回 null
+ */
+export function getSession(channelId, chatId) {
+  if (!ID_PATTERN.test(channelId)) return null
+  try {
+    return load(channelId, chatId)
+  } catch {
+    return null
+  }
+}
+
+export function saveSession(session) {
+  session.updatedAt = Date.now()
+  mkdirSync(channelDir(session.channelId), { recursive: true })
+  writeFileSync(sessionPath(session.channelId, session.chatId), JSON.stringify(session, null, 2), 'utf-8')
+  return session
+}
+
+/**
+ * 列出通道下所有会话摘要，按最近更新时间倒序
+ */
+export function listSessions(channelId) {
+  const dir = channelDir(channelId)
+  if (!existsSync(dir)) return []
+  const result = []
+  for (const file of readdirSync(dir)) {
+    if (!file.endsWith('.json')) continue
+    const chatId = Buffer.from(file.slice(0, -5), 'base64url').toString()
+    const session = getSession(channelId, chatId)
+    if (session) result.push(toSummary(session))
+  }
+  return result.sort((a, b) => b.updatedAt - a.updatedAt)
+}
+
+/**
+ * 清空会话历史和附件（保留屏蔽状态），不存在时返回 null
+ */
+export function resetSession(channelId, chatId) {
+  const session = getSession(channelId, chatId)
+  if (!session) return null
+  session.messages = []
+  session.subAgentSessions = {}
+  session.compaction = {}
+  removeFiles(getChannelFilesDir(channelId, chatId))
+  return saveSession(session)
+}
+
+/**
+ * 屏蔽 / 解除屏蔽会话：屏蔽后该会话的消息不再回复
+ */
+export function setSessionBlocked(channelId, chatId, blocked) {
+  const session = getSession(channelId, chatId)
+  if (!session) return null
+  session.blocked = !!blocked
+  return saveSession(session)
+}
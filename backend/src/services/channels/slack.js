@@ -0,0 +1,306 @@
+import WebSocket from 'ws'
+import fetch from 'node-fetch'
+import { createHmac } from 'crypto'
+import { safeEqual } from '../auth.js'
+import { splitMessage } from './split.js'
+
+const DEFAULT_API_BASE = 'https://slack.com/api'
+
+// Slack 建议单条消息不超过 4000 字符
+const MESSAGE_LIMIT = 3900
+// Events API 请求时间戳允许的最大偏差（防重放）
+const MAX_SIGNATURE_AGE = 5 * 60
+// 记录最近处理过的 event_id，Slack 重试投递同一事件时不再重复回复
+const SEEN_EVENT_LIMIT = 1000
+
+/**
+ * Slack 机器人通道
+ * 支持两种收消息方式：
+ *   - socket：Socket Mode（WebSocket，需 App-Level Token，无需公网地址）
+ *   - events：Events API，Slack 推送到 POST /api/channels/:id/webhook（签名校验）
+ * 频道中 @机器人 和私信（DM）都会回复；回复发在消息所在的 thread 中，
+ * 每个 thread 对应独立的会话（chatId），互不共享历史
+ */
+export class SlackChannel {
+  constructor(config, onMessage) {
+    this.botToken = config.botToken
+    this.appToken = config.appToken
+    this.signingSecret = config.signingSecret
+    this.mode = config.mode === 'events' ? 'events' : 'socket'
+    // 可替换为本地 mock 服务地址，便于测试
+    this.apiBase = (config.apiBase || DEFAULT_API_BASE).replace(/\/$/, '')
+    // onMessage: async (chatId, text) => string | null（null 表示不回复，如会话已被屏蔽）
+    this.onMessage = onMessage
+
+    this.botUserId = null
+    this.ws = null
+    this._seenEvents = new Set()
+
+    this.status = 'disconnected'  // disconnected | connecting | connected | error
+    this.error = null
+    this._stopped = false
+  }
+
+  async start() {
+    this._stopped = false
+    this.status = 'connecting'
+    this.error = null
+    try {
+      const auth = await this._call('auth.test', {}, this.botToken)
+      this.botUserId = auth.user_id
+      console.log(`[Slack] Bot 就绪，user=${this.botUserId}（${this.mode}）`)
+
+      if (this.mode === 'events') {
+        if (!this.signingSecret) throw new Error('Events API 模式需要配置 Signing Secret')
+        this.status = 'connected'
+      } else {
+        if (!this.appToken) throw new Error('Socket Mode 需要配置 App-Level Token')
+        await this._connect()
+      }
+    } catch (err) {
+      this.status = 'error'
+      this.error = err.message
+      console.error('[Slack] Start failed:', err.message)
+    }
+  }
+
+  stop() {
+    this._stopped = true
+    if (this.ws) {
+      this.ws.terminate()
+      this.ws = null
+    }
+    this.status = 'disconnected'
+  }
+
+  /**
+   * 主动发送消息，chatId 格式：slack:<channel> 或 slack:<channel>:<thread_ts>
+   */
+  async send(chatId, text) {
+    const [, channel, threadTs] = chatId.split(':')
+    await this._sendReply(channel, threadTs, text)
+  }
+
+  /**
+   * Events API 模式下由 POST /api/channels/:id/webhook 调用
+   */
+  handleWebhook(req, res) {
+    if (this.mode !== 'events' || this._stopped) return res.status(404).json({ error: 'Events API not enabled' })
+    if (!this._verifySignature(req)) return res.status(401).json({ error: 'Invalid signature' })
+
+    const body = req.body || {}
+    if (body.type === 'url_verification') return res.json({ challenge: body.challenge })
+
+    // 先应答（Slack 要求 3 秒内响应）；重试按 event_id 去重，首次投递丢失时仍会处理重试
+    res.sendStatus(200)
+    if (body.type === 'event_callback' && this._markSeen(body.event_id)) this._handleEvent(body.event)
+  }
+
+  _verifySignature(req) {
+    const timestamp = req.get('x-slack-request-timestamp')
+    const signature = req.get('x-slack-signature') || ''
+    if (!timestamp || Math.abs(Date.now() / 1000 - Number(timestamp)) > MAX_SIGNATURE_AGE) return false
+    const raw = req.rawBody?.toString('utf8') ?? ''
+    return safeEqual(signature, 'v0=' + createHmac('sha256', this.signingSecret).update(`v0:${timestamp}:${raw}`).digest('hex'))
+  }
+
+  // 首次见到该事件时返回 true；没有 event_id 的事件总是处理
+  _markSeen(eventId) {
+    if (!eventId) return true
+    if (this._seenEvents.has(eventId)) return false
+    this._seenEvents.add(eventId)
+    // Set 按插入顺序迭代，超出上限时淘汰最早的
+    if (this._seenEvents.size > SEEN_EVENT_LIMIT) this._seenEvents.delete(this._seenEvents.values().next().value)
+    return true
+  }
+
+  // ── Web API ─────────────────────────────────────────────
+
+  async _call(method, params, token) {
+    const res = await fetch(`${this.apiBase}/${method}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json; charset=utf-8',
+        'Authorization': `Bearer ${token}`,
+      },
+      body: JSON.stringify(params),
+      signal: AbortSignal.timeout(15000),
+    })
+    const data = await res.json()
+    if (!data.ok) throw new Error(`${method} 失败: ${data.error || `HTTP ${res.status}`}`)
+    return data
+  }
+
+  // ── Socket Mode ─────────────────────────────────────────
+
+  async _connect() {
+    if (this._stopped) return
+
+    const { url } = await this._call('apps.connections.open', {}, this.appToken)
+    console.log('[Slack] 连接 Socket Mode WebSocket')
+    this.ws = new WebSocket(url)
+
+    this.ws.on('message', raw => {
+      try {
+        this._handleSocketMessage(JSON.parse(raw.toString()))
+      } catch (e) {
+        console.error('[Slack] 消息解析失败:', e.message)
+      }
+    })
+
+    this.ws.on('close', code => {
+      console.log(`[Slack] WebSocket 断开，code=${code}`)
+      if (this._stopped) return
+      this.status = 'connecting'
+      setTimeout(() => !this._stopped && this._reconnect(), 5000)
+    })
+
+    this.ws.on('error', err => {
+      console.error('[Slack] WebSocket 错误:', err.message)
+      this.status = 'error'
+      this.error = err.message
+    })
+  }
+
+  async _reconnect() {
+    try {
+      await this._connect()
+    } catch (err) {
+      this.status = 'error'
+      this.error = err.message
+      console.error('[Slack] 重连失败:', err.message)
+      setTimeout(() => !this._stopped && this._reconnect(), 5000)
+    }
+  }
+
+  _handleSocketMessage(msg) {
+    // 每个 envelope 都需要确认，否则 Slack 会重发
+    if (msg.envelope_id) this.ws?.send(JSON.stringify({ envelope_id: msg.envelope_id }))
+
+    if (msg.type === 'hello') {
+      this.status = 'connected'
+      this.error = null
+    } else if (msg.type === 'disconnect') {
+      // Slack 主动要求刷新连接：关闭后由 close 事件重连
+      console.log(`[Slack] 收到 disconnect (${msg.reason})，准备重连...`)
+      this.ws?.close()
+    } else if (msg.type === 'events_api' && this._markSeen(msg.payload?.event_id)) {
+      this._handleEvent(msg.payload?.event)
+    }
+  }
+
+  // ── 消息处理 ────────────────────────────────────────────
+
+  async _handleEvent(event) {
+    if (!event || event.bot_id || event.subtype) return
+
+    const isMention = event.type === 'app_mention'
+    const isDM = event.type === 'message' && event.channel_type === 'im'
+    if (!isMention && !isDM) return
+
+    // 去掉 <@BOT> 标记，提取纯文本
+    const text = (event.text || '').replace(/<@[A-Z0-9]+>/g, '').trim()
+    if (!text) return
+
+    // 频道消息总是在 thread 中回复；私信仅在用户已经开 thread 时回复到 thread
+    const threadTs = isMention ? (event.thread_ts || event.ts) : event.thread_ts
+    const chatId = threadTs ? `slack:${event.channel}:${threadTs}` : `slack:${event.channel}`
+    console.log(`[Slack] ${isDM ? '私信' : '频道消息'} [${event.channel}${threadTs ? '/' + threadTs : ''}]: ${text}`)
+
+    try {
+      const reply = await this.onMessage(chatId, text)
+      if (reply) await this._sendReply(event.channel, threadTs, reply)
+    } catch (err) {
+      console.error('[Slack] 处理消息失败:', err.message)
+    }
+  }
+
+  // ── 消息发送 ────────────────────────────────────────────
+
+  async _sendReply(channel, threadTs, content) {
+    for (const chunk of splitMessage(content, MESSAGE_LIMIT)) {
+      await this._call('chat.postMessage', {
+        channel,
+        text: toSlackMrkdwn(chunk),
+        ...(threadTs ? { thread_ts: threadTs } : {}),
+      }, this.botToken)
+    }
+  }
+}
+
+export default {
+  type: 'slack',
+  label: 'Slack 机器人',
+  icon: 'slack',
+  schema: {
+    type: 'object',
+    required: ['botToken', 'appToken', 'signingSecret'],
+    properties: {
+      botToken: {
+        type: 'string',
+        title: 'Bot Token',
+        format: 'password',
+        description: 'Slack App → OAuth & Permissions 中的 Bot User OAuth Token',
+        'x-placeholder': 'xoxb-...',
+      },
+      mode: {
+        type: 'string',
+        title: '接收方式',
+        enum: ['socket', 'events'],
+        enumNames: ['Socket Mode（无需公网地址）', 'Events API'],
+        default: 'socket',
+        'x-summary': true,
+      },
+      appToken: {
+        type: 'string',
+        title: 'App-Level Token',
+        format: 'password',
+        description: 'Basic Information → App-Level Tokens，需 connections:write 权限',
+        'x-placeholder': 'xapp-...',
+        'x-showIf': { mode: 'socket' },
+      },
+      signingSecret: {
+        type: 'string',
+        title: 'Signing Secret',
+        format: 'password',
+        description: 'Event Subscriptions 的 Request URL 填写 https://<域名>{webhookPath}',
+        'x-placeholder': 'Basic Information → App Credentials',
+        'x-showIf': { mode: 'events' },
+      },
+      apiBase: {
+        type: 'string',
+        title: 'Web API 地址（可选）',
+        'x-placeholder': DEFAULT_API_BASE,
+      },
+    },
+  },
+  create: (config, onMessage) => new SlackChannel(config, onMessage),
+}
+
+// ── Markdown → Slack mrkdwn ───────────────────────────────
+
+function escapeSlack(str) {
+  return str.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;')
+}
+
+/**
+ * 将 LLM 输出的常见 Markdown 转换为 Slack mrkdwn
+ * （**粗体** → *粗体*，*斜体* → _斜体_，[文字](链接) → <链接|文字>）
+ */
+export function toSlackMrkdwn(md) {
+  return md.split(/(```[\s\S]*?```|`[^`\n]+`)/g).map(part => {
+    if (part.startsWith('```')) {
+      // Slack 代码块不支持语言标记，去掉 ```js 这类首行
+      const code = part.slice(3, -3).replace(/^\w*\n/, '').replace(/\n$/, '')
+      return '```' + escapeSlack(code) + '```'
+    }
+    if (part.startsWith('`')) return escapeSlack(part)
+    return escapeSlack(part)
+      .replace(/^#{1,6}\s+(.+)$/gm, '\u0001$1\u0001')
+      .replace(/\*\*(.+?)\*\*/g, '\u0001$1\u0001')
+      .replace(/(^|[^*])\*(?!\s)([^*\n]+?)\*(?!\*)/g, '$1_$2_')
+      .replace(/~~(.+?)~~/g, '~$1~')
+      .replace(/\[([^\]]+)\]\((https?:\/\/[^)\s]+)\)/g, '<$2|$1>')
+      .replace(/\u0001/g, '*')
+  }).join('')
+}
@@ -0,0 +1,98 @@
+/**
+ * 将长文本按平台单条消息长度上限拆分为多段
+ * 优先在段落（空行）边界切分，代码块作为整体保留；
+ * 单个代码块超长时按行拆分，并为每一段重新补齐 ``` 围栏
+ *
+ * @param {string} text  - Markdown 文本
+ * @param {number} limit - 单条消息最大字符数
+ * @returns {string[]}
+ */
+export function splitMessage(text, limit) {
+  if (text.length <= limit) return [text]
+
+  const chunks = []
+  let current = ''
+  const push = piece => {
+    if (!current) {
+      current = piece
+    } else if (current.length + 2 + piece.length <= limit) {
+      current += '\n\n' + piece
+    } else {
+      chunks.push(current)
+      current = piece
+    }
+  }
+
+  for (const block of toBlocks(text)) {
+    if (block.length <= limit) push(block)
+    else for (const piece of splitBlock(block, limit)) push(piece)
+  }
+  if (current) chunks.push(current)
+  return chunks
+}
+
+// 按空行切分段落，``` 代码块内的空行不切分
+function toBlocks(text) {
+  const blocks = []
+  let buf = []
+  let inFence = false
+  const flush = () => {
+    if (buf.length) blocks.push(buf.join('\n'))
+    buf = []
+  }
+
+  for (const line of text.split('\n')) {
+    if (/^\s*```/.test(line)) {
+      if (!inFence) flush()
+      buf.push(line)
+      if (inFence) flush()
+      inFence = !inFence
+      continue
+    }
+    if (!inFence && line.trim() === '') {
+      flush()
+      continue
+    }
+    buf.push(line)
+  }
+  flush()
+  return blocks
+}
+
+function splitBlock(block, limit) {
+  const fence = block.match(/^\s*(```[^\n]*)\n/)
+  if (fence && block.trimEnd().endsWith('```')) {
+    const open = fence[1].trim()
+    const inner = block.slice(fence[0].length, block.trimEnd().length - 3).replace(/\n$/, '')
+    // 预留开闭围栏和换行的长度
+    const room = Math.max(limit - open.length - 5, 1)
+    return splitLines(inner, room).map(part => `${open}\n${part}\n\`\`\``)
+  }
+  return splitLines(block, limit)
+}
+
+function splitLines(text, limit) {
+  const out = []
+  let current = ''
+  for (const line of text.split('\n')) {
+    for (const piece of hardCut(line, limit)) {
+      if (!current) {
+        current = piece
+      } else if (current.length + 1 + piece.length <= limit) {
+        current += '\n' + piece
+      } else {
+        out.push(current)
+        current = piece
+      }
+    }
+  }
+  if (current) out.push(current)
+  return out
+}
+
+function hardCut(line, limit) {
+  if (line.length <= limit) return [line]
+  const pieces = []
+  for (let i = 0; i < line.length; i += limit) pieces.push(line.slice(i, i + limit))
+  return pieces
+}
@@ -0,0 +1,328 @@
+import fetch from 'node-fetch'
+import { splitMessage } from './split.js'
+
+const DEFAULT_API_BASE = 'https://api.telegram.org'
+
+// getUpdates 长轮询等待时间（秒）
+const POLL_TIMEOUT = 30
+// 单条消息上限 4096 字符；Markdown 转 HTML 后会变长，按源文本预留余量
+const MESSAGE_LIMIT = 3500
+// 启动失败（网络错误、Telegram 5xx）后的重试间隔：指数退避
+const RESTART_BASE_DELAY = 5000
+const RESTART_MAX_DELAY = 5 * 60_000
+
+// botToken -> 停止 webhook 模式的通道时进行中的 deleteWebhook 请求
+const webhookCleanups = new Map()
+
+/**
+ * Telegram 机器人通道
+ * 支持两种收消息方式：
+ *   - polling：getUpdates 长轮询（无需公网地址）
+ *   - webhook：Telegram 推送到 POST /api/channels/:id/webhook
+ * 私聊直接回复；群聊中仅在 @机器人、回复机器人消息或 /command@机器人 时回复
+ */
+export class TelegramChannel {
+  constructor(config, onMessage) {
+    this.botToken = config.botToken
+    this.mode = config.mode === 'webhook' ? 'webhook' : 'polling'
+    this.webhookUrl = config.webhookUrl
+    this.webhookSecret = config.webhookSecret
+    // 可替换为本地 mock 服务地址，便于测试
+    this.apiBase = (config.apiBase || DEFAULT_API_BASE).replace(/\/$/, '')
+    // onMessage: async (chatId, text) => string | null（null 表示不回复，如会话已被屏蔽）
+    this.onMessage = onMessage
+
+    this.botId = null
+    this.botUsername = null
+    this.offset = 0
+    this.pollCtrl = null
+    this.restartTimer = null
+    this.restartAttempts = 0
+
+    this.status = 'disconnected'  // disconnected | connecting | connected | error
+    this.error = null
+    this._stopped = false
+  }
+
+  async start() {
+    this._stopped = false
+    clearTimeout(this.restartTimer)
+    this.restartTimer = null
+    if (this.mode === 'webhook' && !this.webhookUrl) {
+      this.status = 'error'
+      this.error = 'Webhook 模式需要配置 Webhook URL'
+      return
+    }
+    this.status = 'connecting'
+    this.error = null
+    try {
+      const me = await this._call('getMe')
+      this.botId = me.id
+      this.botUsername = me.username
+      console.log(`[Telegram] Bot 就绪，@${this.botUsername}（${this.mode}）`)
+
+      if (this.mode === 'webhook') {
+        // 同一 Bot 的旧通道实例（如修改配置后重启）可能仍在删除 webhook，等其完成后再设置，避免新 webhook 被删除
+        await webhookCleanups.get(this.botToken)
+        await this._call('setWebhook', {
+          url: this.webhookUrl,
+          allowed_updates: ['message'],
+          ...(this.webhookSecret ? { secret_token: this.webhookSecret } : {}),
+        })
+        this.status = 'connected'
+      } else {
+        // 存在 webhook 时 getUpdates 会被拒绝
+        await this._call('deleteWebhook')
+        this.status = 'connected'
+        this._pollLoop()
+      }
+      this.restartAttempts = 0
+    } catch (err) {
+      if (this._stopped) return
+      this.status = 'error'
+      this.error = err.message
+      console.error('[Telegram] Start failed:', err.message)
+      // Token 无效等 4xx 错误重试也不会成功，等待修改配置
+      if (!err.status || err.status >= 500 || err.status === 429) this._scheduleRestart()
+    }
+  }
+
+  _scheduleRestart() {
+    if (this._stopped) return
+    const delay = Math.min(RESTART_MAX_DELAY, RESTART_BASE_DELAY * 2 ** this.restartAttempts++)
+    console.log(`[Telegram] ${delay / 1000} 秒后重试启动（第 ${this.restartAttempts} 次）`)
+    this.restartTimer = setTimeout(() => this.start(), delay)
+  }
+
+  stop() {
+    const wasWebhook = this.mode === 'webhook' && !this._stopped && this.status === 'connected'
+    this._stopped = true
+    clearTimeout(this.restartTimer)
+    this.restartTimer = null
+    this.pollCtrl?.abort()
+    this.pollCtrl = null
+    this.status = 'disconnected'
+    // 删除 webhook，否则切换到轮询或删除通道后 Telegram 仍会推送到旧地址
+    if (wasWebhook) {
+      const cleanup = this._call('deleteWebhook')
+        .catch(err => console.error('[Telegram] 删除 webhook 失败:', err.message))
+        .finally(() => {
+          if (webhookCleanups.get(this.botToken) === cleanup) webhookCleanups.delete(this.botToken)
+        })
+      webhookCleanups.set(this.botToken, cleanup)
+    }
+  }
+
+  /**
+   * 主动发送消息，chatId 格式：telegram:<chat_id>
+   */
+  async send(chatId, text) {
+    const id = chatId.replace(/^telegram:/, '')
+    for (const chunk of splitMessage(text, MESSAGE_LIMIT)) await this._sendChunk({ chat_id: id }, chunk)
+  }
+
+  /**
+   * Webhook 模式下由 POST /api/channels/:id/webhook 调用
+   */
+  handleWebhook(req, res) {
+    if (this.mode !== 'webhook' || this._stopped) return res.status(404).json({ error: 'Webhook not enabled' })
+    if (this.webhookSecret && req.get('x-telegram-bot-api-secret-token') !== this.webhookSecret) {
+      return res.status(401).json({ error: 'Invalid secret token' })
+    }
+    // 先应答，避免 LLM 处理耗时导致 Telegram 重推
+    res.sendStatus(200)
+    this._handleUpdate(req.body)
+  }
+
+  // ── Bot API ─────────────────────────────────────────────
+
+  async _call(method, params = {}, signal) {
+    const res = await fetch(`${this.apiBase}/bot${this.botToken}/${method}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(params),
+      signal: signal ?? AbortSignal.timeout(15000),
+    })
+    const data = await res.json()
+    if (!data.ok) {
+      const err = new Error(`${method} 失败: ${data.description || `HTTP ${res.status}`}`)
+      err.status = data.error_code ?? res.status
+      throw err
+    }
+    return data.result
+  }
+
+  // ── 长轮询 ──────────────────────────────────────────────
+
+  async _pollLoop() {
+    while (!this._stopped) {
+      this.pollCtrl = new AbortController()
+      try {
+        const updates = await this._call(
+          'getUpdates',
+          { offset: this.offset, timeout: POLL_TIMEOUT, allowed_updates: ['message'] },
+          AbortSignal.any([this.pollCtrl.signal, AbortSignal.timeout((POLL_TIMEOUT + 10) * 1000)])
+        )
+        this.status = 'connected'
+        this.error = null
+        for (const update of updates) {
+          this.offset = update.update_id + 1
+          this._handleUpdate(update)
+        }
+      } catch (err) {
+        if (this._stopped) return
+        console.error('[Telegram] getUpdates 失败:', err.message)
+        // 409：webhook 仍然有效（如被其他程序设置），删除后重试
+        if (err.status === 409) await this._call('deleteWebhook').catch(() => {})
+        this.status = 'error'
+        this.error = err.message
+        await new Promise(r => setTimeout(r, 5000))
+      }
+    }
+  }
+
+  // ── 消息处理 ────────────────────────────────────────────
+
+  async _handleUpdate(update) {
+    const msg = update?.message
+    if (!msg?.text) return
+
+    const chat = msg.chat
+    let text = msg.text
+    if (chat.type !== 'private') {
+      if (!this._isAddressed(msg)) return
+      // 去掉 @bot 标记，提取纯文本
+      text = text.replace(new RegExp(`@${this.botUsername}\\b`, 'gi'), '').trim()
+      if (!text) return
+    }
+
+    const chatId = `telegram:${chat.id}`
+    console.log(`[Telegram] ${chat.type === 'private' ? '私聊' : '群'}消息 [${chat.id}]: ${text}`)
+
+    try {
+      this._call('sendChatAction', { chat_id: chat.id, action: 'typing' }).catch(() => {})
+      const reply = await this.onMessage(chatId, text)
+      if (reply) await this._sendReply(chat.id, msg.message_id, reply)
+    } catch (err) {
+      console.error('[Telegram] 处理消息失败:', err.message)
+    }
+  }
+
+  // 群聊中是否在和机器人说话：@提及、/command@bot、或回复机器人的消息
+  _isAddressed(msg) {
+    if (msg.reply_to_message?.from?.id === this.botId) return true
+    const mention = `@${this.botUsername}`.toLowerCase()
+    return (msg.entities || []).some(e => {
+      const part = msg.text.slice(e.offset, e.offset + e.length).toLowerCase()
+      if (e.type === 'mention') return part === mention
+      if (e.type === 'bot_command') return part.endsWith(mention)
+      return false
+    })
+  }
+
+  // ── 消息发送 ────────────────────────────────────────────
+
+  async _sendReply(chatId, replyToId, content) {
+    const chunks = splitMessage(content, MESSAGE_LIMIT)
+    for (let i = 0; i < chunks.length; i++) {
+      const base = { chat_id: chatId }
+      if (i === 0) base.reply_parameters = { message_id: replyToId, allow_sending_without_reply: true }
+      await this._sendChunk(base, chunks[i])
+    }
+  }
+
+  async _sendChunk(base, chunk) {
+    try {
+      await this._call('sendMessage', { ...base, text: toTelegramHTML(chunk), parse_mode: 'HTML' })
+    } catch (err) {
+      // HTML 解析失败时退回纯文本
+      console.warn('[Telegram] 富文本发送失败，改用纯文本:', err.message)
+      await this._call('sendMessage', { ...base, text: chunk })
+    }
+  }
+}
+
+export default {
+  type: 'telegram',
+  label: 'Telegram 机器人',
+  icon: 'send',
+  schema: {
+    type: 'object',
+    required: ['botToken', 'webhookUrl'],
+    properties: {
+      botToken: {
+        type: 'string',
+        title: 'Bot Token',
+        format: 'password',
+        description: '通过 @BotFather 创建机器人后获取',
+        'x-placeholder': '123456:ABC-DEF...',
+      },
+      mode: {
+        type: 'string',
+        title: '接收方式',
+        enum: ['polling', 'webhook'],
+        enumNames: ['长轮询（无需公网地址）', 'Webhook'],
+        default: 'polling',
+        'x-summary': true,
+      },
+      webhookUrl: {
+        type: 'string',
+        title: 'Webhook URL',
+        description: '公网可访问的地址，路径为 {webhookPath}',
+        'x-placeholder': 'https://example.com/api/channels/<id>/webhook',
+        'x-showIf': { mode: 'webhook' },
+      },
+      webhookSecret: {
+        type: 'string',
+        title: 'Secret Token（可选）',
+        format: 'password',
+        'x-placeholder': '校验 X-Telegram-Bot-Api-Secret-Token 请求头',
+        'x-showIf': { mode: 'webhook' },
+      },
+      apiBase: {
+        type: 'string',
+        title: 'Bot API 地址（可选）',
+        'x-placeholder': DEFAULT_API_BASE,
+      },
+    },
+  },
+  create: (config, onMessage) => new TelegramChannel(config, onMessage),
+}
+
+// ── Markdown → Telegram HTML ──────────────────────────────
+
+function escapeHTML(str) {
+  return str.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;')
+}
+
+/**
+ * 将 LLM 输出的常见 Markdown 转换为 Telegram 支持的 HTML 子集
+ * （比 MarkdownV2 更宽容，不需要转义大量标点）
+ */
+export function toTelegramHTML(md) {
+  return md.split(/(```[^\n]*\n[\s\S]*?```)/g).map(part => {
+    const fence = part.match(/^```([^\n]*)\n([\s\S]*?)```$/)
+    if (!fence) return inlineToHTML(part)
+    const lang = fence[1].trim()
+    const code = escapeHTML(fence[2].replace(/\n$/, ''))
+    return lang
+      ? `<pre><code class="language-${escapeHTML(lang)}">${code}</code></pre>`
+      : `<pre>${code}</pre>`
+  }).join('')
+}
+
+function inlineToHTML(text) {
+  // 先抽出行内代码，避免其中的符号被当作格式
+  const codes = []
+  let s = text.replace(/`([^`\n]+)`/g, (_, code) => {
+    codes.push(code)
+    return `\u0000${codes.length - 1}\u0000`
+  })
+  s = escapeHTML(s)
+    .replace(/^#{1,6}\s+(.+)$/gm, '<b>$1</b>')
+    .replace(/\*\*(.+?)\*\*/g, '<b>$1</b>')
+    .replace(/(^|[^*])\*(?!\s)([^*\n]+?)\*(?!\*)/g, '$1<i>$2</i>')
+    .replace(/~~(.+?)~~/g, '<s>$1</s>')
+    .replace(/\[([^\]]+)\]\((https?:\/\/[^)\s]+)\)/g, (_, label, url) => `<a href="${url.replace(/"/g, '&quot;')}">${label}</a>`)
+  return s.replace(/\u0000(\d+)\u0000/g, (_, i) => `<code>${escapeHTML(codes[i])}</code>`)
+}
@@ -0,0 +1,209 @@
+import fetch from 'node-fetch'
+import { createHmac } from 'crypto'
+import { safeEqual } from '../auth.js'
+
+const DEFAULT_TEMPLATE = '{"chatId": "{{chatId}}", "reply": "{{reply}}"}'
+
+/**
+ * 通用 Webhook 通道
+ * 外部系统（告警、工单、飞书 / 企业微信机器人等）POST JSON 到 /api/channels/:id/inbound，
+ * 按配置的 JSON 路径取出消息文本和会话 ID，交给 LLM 处理后：
+ *   - sync：直接在响应体中返回回复
+ *   - callback：立即返回 202，处理完成后将回复 POST 到回调地址
+ * 两种方式的回复内容都由模板渲染，模板中的 {{reply}} / {{chatId}} / {{text}} / {{body.路径}} 会被替换
+ */
+export class WebhookChannel {
+  constructor(config, onMessage, { id }) {
+    this.id = id
+    this.secret = config.secret
+    this.signatureHeader = config.signatureHeader || 'X-Signature'
+    this.textPath = config.textPath || 'text'
+    this.chatIdPath = config.chatIdPath || 'chatId'
+    this.replyMode = config.replyMode === 'callback' ? 'callback' : 'sync'
+    this.callbackUrl = config.callbackUrl
+    this.template = config.template || DEFAULT_TEMPLATE
+    // onMessage: async (chatId, text) => string | null（null 表示不回复，如会话已被屏蔽）
+    this.onMessage = onMessage
+
+    this.status = 'disconnected'  // disconnected | connecting | connected | error
+    this.error = null
+    this._stopped = false
+  }
+
+  async start() {
+    this._stopped = false
+    // 入口无其他认证，未配置密钥时任何人都能触发 LLM 调用和工具执行
+    if (!this.secret) {
+      this.status = 'error'
+      this.error = '需要配置签名密钥'
+      return
+    }
+    if (this.replyMode === 'callback' && !this.callbackUrl) {
+      this.status = 'error'
+      this.error = '回调模式需要配置回调地址'
+      return
+    }
+    // 被动接收请求，无需建立连接
+    this.status = 'connected'
+    this.error = null
+  }
+
+  stop() {
+    this._stopped = true
+    this.status = 'disconnected'
+  }
+
+  /**
+   * 主动发送消息：按模板 POST 到回调地址，chatId 格式：webhook:<外部会话 ID>
+   */
+  async send(chatId, text) {
+    if (!this.callbackUrl) throw new Error('未配置回调地址')
+    if (!this.secret) throw new Error('未配置签名密钥')
+    const externalId = chatId.replace(/^webhook:/, '')
+    await this._callback(this._render({ reply: text, chatId: externalId, text: '', body: {} }))
+  }
+
+  /**
+   * 由 POST /api/channels/:id/inbound 调用
+   */
+  async handleInbound(req, res) {
+    if (this._stopped) return res.status(404).json({ error: 'Channel stopped' })
+    if (this.status !== 'connected') return res.status(503).json({ error: this.error || 'Channel not ready' })
+    if (!this._verifySignature(req)) return res.status(401).json({ error: 'Invalid signature' })
+
+    const body = req.body || {}
+    const text = getByPath(body, this.textPath)
+    if (typeof text !== 'string' || !text.trim()) {
+      return res.status(400).json({ error: `No text found at "${this.textPath}"` })
+    }
+    // 未提供会话 ID 时所有请求共享同一会话
+    const externalId = String(getByPath(body, this.chatIdPath) ?? 'default')
+    const chatId = `webhook:${externalId}`
+    console.log(`[Webhook] 收到消息 [${this.id}/${externalId}]: ${text}`)
+
+    if (this.replyMode === 'callback') {
+      res.status(202).json({ ok: true })
+      try {
+        const reply = await this.onMessage(chatId, text.trim())
+        if (reply) await this._callback(this._render({ reply, chatId: externalId, text, body }))
+        this.error = null
+      } catch (err) {
+        this.error = `回调失败: ${err.message}`
+        console.error('[Webhook] 回调失败:', err.message)
+      }
+      return
+    }
+
+    try {
+      const reply = await this.onMessage(chatId, text.trim())
+      if (!reply) return res.status(204).end()
+      res.type('application/json').send(this._render({ reply, chatId: externalId, text, body }))
+    } catch (err) {
+      console.error('[Webhook] 处理消息失败:', err.message)
+      res.status(500).json({ error: err.message })
+    }
+  }
+
+  // 签名为原始请求体的 HMAC-SHA256（hex），兼容 "sha256=<hex>" 格式
+  _verifySignature(req) {
+    const signature = (req.get(this.signatureHeader) || '').replace(/^sha256=/, '')
+    const raw = req.rawBody?.toString('utf8') ?? ''
+    return safeEqual(signature, sign(this.secret, raw))
+  }
+
+  _render(vars) {
+    return this.template.replace(/\{\{\s*([\w.[\]]+)\s*\}\}/g, (_, key) => {
+      const value = key.startsWith('body.') ? getByPath(vars.body, key.slice(5)) : vars[key]
+      if (value === undefined || value === null) return ''
+      // 按 JSON 字符串内容转义，模板中的占位符应写在引号内
+      return JSON.stringify(typeof value === 'string' ? value : JSON.stringify(value)).slice(1, -1)
+    })
+  }
+
+  async _callback(payload) {
+    const res = await fetch(this.callbackUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', [this.signatureHeader]: `sha256=${sign(this.secret, payload)}` },
+      body: payload,
+      signal: AbortSignal.timeout(15000),
+    })
+    if (!res.ok) throw new Error(`HTTP ${res.status}: ${(await res.text()).slice(0, 200)}`)
+  }
+}
+
+function sign(secret, payload) {
+  return createHmac('sha256', secret).update(payload).digest('hex')
+}
+
+/**
+ * 按路径读取 JSON 字段，支持 a.b.c、items[0].text、$.a.b 写法
+ */
+export function getByPath(obj, path) {
+  const keys = path.replace(/^\$\.?/, '').replace(/\[(\d+)\]/g, '.$1').split('.').filter(Boolean)
+  let cur = obj
+  for (const key of keys) {
+    if (cur === null || typeof cur !== 'object') return undefined
+    cur = cur[key]
+  }
+  return cur
+}
+
+export default {
+  type: 'webhook',
+  label: '通用 Webhook',
+  icon: 'api',
+  schema: {
+    type: 'object',
+    required: ['textPath', 'secret', 'callbackUrl'],
+    properties: {
+      textPath: {
+        type: 'string',
+        title: '消息文本路径',
+        description: '外部系统 POST JSON 到 /api/channels/{channelId}/inbound，从请求体中读取消息文本的 JSON 路径',
+        default: 'text',
+        'x-placeholder': '如 text、event.message.content',
+      },
+      chatIdPath: {
+        type: 'string',
+        title: '会话 ID 路径',
+        description: '相同会话 ID 的请求共享对话历史，取不到时所有请求共享同一会话',
+        default: 'chatId',
+        'x-placeholder': '如 chatId、event.chat_id',
+      },
+      secret: {
+        type: 'string',
+        title: '签名密钥',
+        format: 'password',
+        description: '校验请求头中原始请求体的 HMAC-SHA256 签名（hex，可带 sha256= 前缀），回调请求也会附带签名',
+      },
+      signatureHeader: {
+        type: 'string',
+        title: '签名请求头',
+        default: 'X-Signature',
+      },
+      replyMode: {
+        type: 'string',
+        title: '回复方式',
+        enum: ['sync', 'callback'],
+        enumNames: ['同步返回（在响应体中）', '回调（POST 到回调地址）'],
+        default: 'sync',
+        'x-summary': true,
+      },
+      callbackUrl: {
+        type: 'string',
+        title: '回调地址',
+        'x-placeholder': 'https://example.com/robot/send',
+        'x-showIf': { replyMode: 'callback' },
+        'x-summary': true,
+      },
+      template: {
+        type: 'string',
+        title: '回复模板',
+        description: '回复的 JSON 内容，可用 {{reply}}、{{chatId}}、{{text}}、{{body.字段路径}}，占位符需写在引号内',
+        default: DEFAULT_TEMPLATE,
+        'x-multiline': true,
+      },
+    },
+  },
+  create: (config, onMessage, context) => new WebhookChannel(config, onMessage, context),
+}
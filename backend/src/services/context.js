@@ -0,0 +1,264 @@
+import { createHash } from 'crypto'
+
+/**
+ * 上下文管理：估算历史消息的 token 数，超过模型上下文窗口的阈值时，
+ * 用 LLM 将较早的对话总结为摘要（放入系统提示词），只保留最近的若干轮原文。
+ *
+ * 截断点只会落在普通 user 消息（不含 tool_result）之前，保证 tool_use / tool_result 成对保留或成对被总结。
+ * 摘要按「被总结的消息前缀」缓存在内存中：历史只追加不修改，后续轮次可直接复用，
+ * 需要再次压缩时在已有摘要的基础上增量总结。最近一次的摘要及截断点另由调用方随对话保存（options.saved），
+ * 重启后无需重新总结，模型看到的摘要也保持不变。
+ */
+
+// 回答的最大输出 token；开启深度思考时另加思考预算（见 getMaxOutputTokens）
+const MAX_OUTPUT_TOKENS = 4096
+// 深度思考的默认 / 最小预算（Anthropic 要求 budget_tokens ≥ 1024）
+const DEFAULT_THINKING_BUDGET = 4096
+const MIN_THINKING_BUDGET = 1024
+// 估算超过可用窗口的该比例时触发压缩
+const COMPACT_THRESHOLD = 0.8
+// 压缩后保留的最近消息不超过可用窗口的该比例，留出余量，避免每轮都重新总结
+const KEEP_RECENT = 0.4
+// 每次总结请求的原文不超过可用窗口的该比例，更长的前缀分段增量总结
+const SUMMARY_CHUNK = 0.5
+// 渲染总结原文时单个工具结果的最大长度（字符）
+const MAX_TOOL_RESULT_CHARS = 2000
+
+const DEFAULT_CONTEXT_WINDOW = 32000
+
+// 按模型名匹配的上下文窗口（模型配置中的 contextWindow 优先）
+const CONTEXT_WINDOWS = [
+  [/claude/i, 200000],
+  [/gpt-4o|gpt-4\.1|gpt-4-turbo|^o\d/i, 128000],
+  [/gpt-4/i, 8192],
+  [/gpt-3\.5/i, 16385],
+  [/deepseek/i, 64000],
+  [/qwen|glm-4|kimi/i, 128000],
+]
+
+// 各 provider 的 token 估算系数：CJK 字符每字约多少 token，其他字符约多少字符一个 token
+const TOKEN_RATIOS = {
+  anthropic: { cjk: 1.2, charsPerToken: 3.5 },
+  openai_compatible: { cjk: 0.7, charsPerToken: 4 },
+}
+
+// 每条消息的格式开销
+const MESSAGE_OVERHEAD = 4
+
+const SUMMARY_CACHE_SIZE = 500
+const summaryCache = new Map()
+
+/**
+ * 模型的上下文窗口（token）：配置的 contextWindow > 模型名中的 8k / 32k / 128k > 已知模型表 > 默认值
+ */
+export function getContextWindow(model) {
+  if (model.contextWindow > 0) return model.contextWindow
+  const name = model.model || ''
+  const sized = name.match(/(\d+)k\b/i)
+  if (sized) return Number(sized[1]) * 1024
+  const known = CONTEXT_WINDOWS.find(([pattern]) => pattern.test(name))
+  if (known) return known[1]
+  return model.provider === 'anthropic' ? 200000 : DEFAULT_CONTEXT_WINDOW
+}
+
+/**
+ * 深度思考的 token 预算
+ */
+export function getThinkingBudget(model) {
+  return Math.max(MIN_THINKING_BUDGET, model.thinkingBudget || DEFAULT_THINKING_BUDGET)
+}
+
+/**
+ * 单次调用的最大输出 token（callAnthropic 的 max_tokens），压缩历史时为其预留空间
+ */
+export function getMaxOutputTokens(model) {
+  return MAX_OUTPUT_TOKENS + (model.thinking ? getThinkingBudget(model) : 0)
+}
+
+/**
+ * 粗略估算文本的 token 数（不依赖具体 tokenizer，宁多勿少）
+ */
+export function estimateTokens(text, provider) {
+  if (!text) return 0
+  const ratio = TOKEN_RATIOS[provider] || TOKEN_RATIOS.openai_compatible
+  let cjk = 0
+  for (const ch of text) {
+    if (ch.codePointAt(0) >= 0x2e80) cjk++
+  }
+  return Math.ceil(cjk * ratio.cjk + (text.length - cjk) / ratio.charsPerToken)
+}
+
+// 图片按固定 token 数估算（约为 1000×1000 像素图片的用量）
+const IMAGE_TOKENS = 1600
+
+function estimateMessageTokens(msg, provider) {
+  if (typeof msg.content === 'string') return estimateTokens(msg.content, provider) + MESSAGE_OVERHEAD
+  return msg.content.reduce((sum, block) => sum + (block.type === 'image'
+    ? IMAGE_TOKENS
+    : estimateTokens(JSON.stringify(block), provider)), MESSAGE_OVERHEAD)
+}
+
+// 普通 user 消息（非 tool_result），可以作为截断后的第一条消息
+function isPlainUser(msg) {
+  return msg.role === 'user' && !(Array.isArray(msg.content) && msg.content.some(b => b.type === 'tool_result'))
+}
+
+/**
+ * 可截断的位置：每个普通 user 消息之前，附带其之前所有消息的哈希（摘要缓存的 key）
+ */
+function cutPoints(history) {
+  const hash = createHash('sha256')
+  const cuts = []
+  history.forEach((msg, index) => {
+    if (index > 0 && isPlainUser(msg)) cuts.push({ index, key: hash.copy().digest('hex') })
+    hash.update(JSON.stringify(msg))
+  })
+  return cuts
+}
+
+// 截断点的已有摘要：内存缓存优先，其次是随对话保存的摘要
+function findSummary(cut, saved) {
+  return summaryCache.get(cut.key) ?? (saved?.key === cut.key && saved.cut === cut.index ? saved.summary : undefined)
+}
+
+function cacheSummary(key, summary) {
+  summaryCache.delete(key)
+  summaryCache.set(key, summary)
+  if (summaryCache.size > SUMMARY_CACHE_SIZE) summaryCache.delete(summaryCache.keys().next().value)
+}
+
+/**
+ * 将消息渲染为供总结的纯文本，工具调用和结果也一并保留（结果过长时截断），思考过程不参与总结
+ */
+function renderMessage(msg) {
+  const speaker = msg.role === 'user' ? 'User' : 'Assistant'
+  if (typeof msg.content === 'string') return `${speaker}: ${msg.content}`
+  return msg.content.map(block => {
+    if (block.type === 'text') return `${speaker}: ${block.text}`
+    if (block.type === 'image') return `${speaker}: [Image]`
+    if (block.type === 'tool_use') return `[Tool call] ${block.name} ${JSON.stringify(block.input)}`
+    if (block.type === 'tool_result') {
+      const content = typeof block.content === 'string' ? block.content : JSON.stringify(block.content)
+      const truncated = content.length > MAX_TOOL_RESULT_CHARS ? `${content.slice(0, MAX_TOOL_RESULT_CHARS)}…` : content
+      return `[Tool result] ${truncated}`
+    }
+    return ''
+  }).filter(Boolean).join('\n')
+}
+
+function buildSummaryPrompt(previous, transcript) {
+  return [
+    'You are compacting the earlier part of a conversation between a user and an AI assistant so it fits in the context window.',
+    'Write a concise summary that preserves everything needed to continue the conversation: the user\'s goals and preferences,',
+    'facts and decisions established, results of tool calls, and any open questions or unfinished tasks.',
+    'Write the summary in the same language the conversation uses. Output only the summary.',
+    '',
+    ...(previous ? ['<previous_summary>', previous, '</previous_summary>', ''] : []),
+    '<transcript>',
+    transcript,
+    '</transcript>',
+  ].join('\n')
+}
+
+/**
+ * 分段总结：每段原文不超过 chunkTokens，后一段在前一段摘要的基础上继续
+ */
+async function summarizeMessages(messages, previous, summarize, chunkTokens, provider) {
+  let summary = previous
+  let chunk = []
+  let chunkSize = 0
+  const flush = async () => {
+    if (chunk.length === 0) return
+    summary = (await summarize(buildSummaryPrompt(summary, chunk.join('\n\n')))).trim()
+    if (!summary) throw new Error('empty summary')
+    chunk = []
+    chunkSize = 0
+  }
+  for (const msg of messages) {
+    let text = renderMessage(msg)
+    let size = estimateTokens(text, provider)
+    if (size > chunkTokens) {
+      // 单条消息超长：按比例截断
+      text = `${text.slice(0, Math.floor(text.length * chunkTokens / size))}…`
+      size = chunkTokens
+    }
+    if (chunkSize + size > chunkTokens) await flush()
+    chunk.push(text)
+    chunkSize += size
+  }
+  await flush()
+  return summary
+}
+
+/**
+ * 按模型上下文窗口压缩历史
+ *
+ * @param {object}   model   - 本次调用的模型配置（provider、model、contextWindow）
+ * @param {Array}    history - 完整历史（Anthropic 格式，可含 tool_use / tool_result）
+ * @param {object}   options
+ * @param {string}   [options.systemPrompt] - 系统提示词（计入估算）
+ * @param {Array}    [options.tools]        - 工具定义（计入估算）
+ * @param {Function} options.summarize      - (prompt) => Promise<string>，调用 LLM 生成摘要
+ * @param {object}   [options.saved]        - 随对话保存的摘要 { key, cut, summary }，生成新摘要时原地更新，由调用方写回
+ * @param {AbortSignal} [options.signal]
+ * @returns {Promise<{ messages: Array, summary: string | null, compacted: number }>}
+ *   messages 为发给 LLM 的消息，summary 为较早对话的摘要，compacted 为被总结的消息数
+ */
+export async function compactHistory(model, history, { systemPrompt, tools = [], summarize, saved, signal } = {}) {
+  const provider = model.provider
+  const usable = getContextWindow(model) - getMaxOutputTokens(model)
+  const fixed = estimateTokens(systemPrompt, provider) + estimateTokens(JSON.stringify(tools), provider)
+  const sizes = history.map(m => estimateMessageTokens(m, provider))
+  const total = fixed + sizes.reduce((a, b) => a + b, 0)
+  const limit = usable * COMPACT_THRESHOLD
+  if (total <= limit) return { messages: history, summary: null, compacted: 0 }
+
+  const cuts = cutPoints(history)
+  if (cuts.length === 0) {
+    console.warn(`[context] 历史约 ${total} tokens，超过 ${model.name} 的窗口阈值，但没有可截断的位置`)
+    return { messages: history, summary: null, compacted: 0 }
+  }
+
+  // suffix[i]：从第 i 条开始到末尾的 token 数
+  const suffix = new Array(history.length + 1).fill(0)
+  for (let i = history.length - 1; i >= 0; i--) suffix[i] = suffix[i + 1] + sizes[i]
+
+  // 1. 已有摘要足够时直接复用（取保留原文最多的那个）
+  for (const cut of cuts) {
+    const cached = findSummary(cut, saved)
+    if (cached && fixed + estimateTokens(cached, provider) + suffix[cut.index] <= limit) {
+      return { messages: history.slice(cut.index), summary: cached, compacted: cut.index }
+    }
+  }
+
+  // 2. 选新的截断点：保留的原文不超过 KEEP_RECENT；最后一轮本身就超长时只能保留最后一轮
+  const budget = usable * KEEP_RECENT - fixed
+  const cut = cuts.find(c => suffix[c.index] <= budget) || cuts[cuts.length - 1]
+
+  // 在截断点之前最近的已有摘要基础上增量总结
+  let previous = null
+  let from = 0
+  for (const c of cuts) {
+    if (c.index >= cut.index) break
+    const cached = findSummary(c, saved)
+    if (cached) {
+      previous = cached
+      from = c.index
+    }
+  }
+
+  try {
+    const summary = await summarizeMessages(
+      history.slice(from, cut.index), previous, summarize, usable * SUMMARY_CHUNK, provider,
+    )
+    cacheSummary(cut.key, summary)
+    if (saved) Object.assign(saved, { key: cut.key, cut: cut.index, summary })
+    console.log(`[context] 已将前 ${cut.index} 条消息总结为摘要（历史约 ${total} tokens，${model.name} 窗口 ${getContextWindow(model)}）`)
+    return { messages: history.slice(cut.index), summary, compacted: cut.index }
+  } catch (err) {
+    if (signal?.aborted) throw err
+    // 总结失败时退化为直接丢弃较早的消息（保留已有的摘要），保证请求不超出窗口
+    console.warn(`[context] 总结历史失败，丢弃前 ${cut.index} 条消息: ${err.message}`)
+    return { messages: history.slice(cut.index), summary: previous, compacted: cut.index }
+  }
+}
@@ -0,0 +1,216 @@
+import { readFileSync, writeFileSync, readdirSync, mkdirSync, rmSync, existsSync } from 'fs'
+import { join } from 'path'
+import { v4 as uuidv4 } from 'uuid'
+import { DATA_DIR } from '../config/index.js'
+import { toContentBlocks } from './images.js'
+import { getConversationFilesDir, removeFiles, withFileNote } from './files.js'
+
+const CONVERSATIONS_DIR = join(DATA_DIR, 'conversations')
+
+// 对话 ID 只允许字母数字、下划线和连字符，防止路径穿越
+const ID_PATTERN = /^[\w-]+$/
+
+function conversationPath(id) {
+  if (!ID_PATTERN.test(id)) throw new Error(`Invalid conversation id: ${id}`)
+  return join(CONVERSATIONS_DIR, `${id}.json`)
+}
+
+function ensureDir() {
+  mkdirSync(CONVERSATIONS_DIR, { recursive: true })
+}
+
+/**
+ * 对话摘要（列表页使用，不含消息正文）
+ */
+function toSummary(conv) {
+  return {
+    id: conv.id,
+    title: conv.title,
+    createdAt: conv.createdAt,
+    updatedAt: conv.updatedAt,
+    messageCount: conv.messages.length,
+  }
+}
+
+/**
+ * 列出所有对话摘要，按最近更新时间倒序
+ */
+export function listConversations() {
+  ensureDir()
+  const result = []
+  for (const file of readdirSync(CONVERSATIONS_DIR)) {
+    if (!file.endsWith('.json')) continue
+    const conv = getConversation(file.slice(0, -5))
+    if (conv) result.push(toSummary(conv))
+  }
+  return result.sort((a, b) => b.updatedAt - a.updatedAt)
+}
+
+/**
+ * 消息以树的形式存储：每条消息记录 parentId，编辑/重新生成会产生兄弟分支，
+ * currentLeafId 指向当前激活分支的末端消息。
+ * 旧版线性对话（无 parentId）在读取时按顺序串成一条链。
+ */
+function normalize(conv) {
+  if (!conv.subAgentSessions) conv.subAgentSessions = {}
+  if (!conv.compaction) conv.compaction = {}
+  conv.messages.forEach((m, i) => {
+    if (m.parentId === undefined) m.parentId = i > 0 ? conv.messages[i - 1].id : null
+  })
+  if (conv.currentLeafId === undefined) {
+    conv.currentLeafId = conv.messages[conv.messages.length - 1]?.id ?? null
+  }
+  return conv
+}
+
+/**
+ * 读取完整对话（含消息），不存在时返回 null
+ */
+export function getConversation(id) {
+  if (!ID_PATTERN.test(id)) return null
+  try {
+    return normalize(JSON.parse(readFileSync(conversationPath(id), 'utf-8')))
+  } catch {
+    return null
+  }
+}
+
+export function saveConversation(conv) {
+  ensureDir()
+  writeFileSync(conversationPath(conv.id), JSON.stringify(conv, null, 2), 'utf-8')
+  return conv
+}
+
+export function createConversation({ id, title } = {}) {
+  const now = Date.now()
+  return saveConversation({
+    id: id || uuidv4(),
+    title: title || '新对话',
+    messages: [],
+    currentLeafId: null,
+    // SubAgent session 状态（对话级别复用）：{ subAgentId: sessionId }
+    subAgentSessions: {},
+    // 上下文压缩的摘要：{ key: 被总结消息前缀的哈希, cut: 截断点, summary }
+    compaction: {},
+    createdAt: now,
+    updatedAt: now,
+  })
+}
+
+/**
+ * 导入旧版前端保存在浏览器 localStorage 中的对话（线性消息，无分支与用量）
+ * 保留原 ID，已存在时不覆盖（重复导入无副作用）；只保留消息的文本与工具调用。返回对话摘要
+ */
+export function importConversation({ id, title, messages, createdAt } = {}) {
+  const validId = typeof id === 'string' && ID_PATTERN.test(id)
+  const existing = validId && getConversation(id)
+  if (existing) return toSummary(existing)
+
+  const conv = createConversation({ id: validId ? id : undefined, title: typeof title === 'string' ? title : undefined })
+  const seen = new Set()
+  let parentId = null
+  for (const m of Array.isArray(messages) ? messages : []) {
+    if (!m || (m.role !== 'user' && m.role !== 'assistant') || typeof m.content !== 'string') continue
+    const msgId = typeof m.id === 'string' && !seen.has(m.id) ? m.id : uuidv4()
+    seen.add(msgId)
+    conv.messages.push({
+      id: msgId,
+      role: m.role,
+      content: m.content,
+      ...(Array.isArray(m.toolCalls) && m.toolCalls.length > 0 && { toolCalls: m.toolCalls }),
+      parentId,
+    })
+    parentId = msgId
+  }
+  conv.currentLeafId = parentId
+  if (Number.isFinite(createdAt)) conv.createdAt = conv.updatedAt = createdAt
+  return toSummary(saveConversation(conv))
+}
+
+/**
+ * 更新对话字段（title 重命名、currentLeafId 切换分支、modelId 切换模型，null 表示恢复默认模型），
+ * 返回更新后的对话；不存在时返回 null
+ */
+export function updateConversation(id, { title, currentLeafId, modelId }) {
+  const conv = getConversation(id)
+  if (!conv) return null
+  if (typeof title === 'string' && title.trim()) conv.title = title.trim()
+  if (currentLeafId !== undefined) {
+    if (currentLeafId !== null && !conv.messages.some(m => m.id === currentLeafId)) {
+      throw new Error(`Message not found: ${currentLeafId}`)
+    }
+    conv.currentLeafId = currentLeafId
+  }
+  if (modelId !== undefined) {
+    if (modelId) conv.modelId = modelId
+    else delete conv.modelId
+  }
+  conv.updatedAt = Date.now()
+  return saveConversation(conv)
+}
+
+export function deleteConversation(id) {
+  const path = conversationPath(id)
+  if (!existsSync(path)) return false
+  rmSync(path)
+  removeFiles(getConversationFilesDir(id))
+  return true
+}
+
+/**
+ * 从 leafId 向上回溯到根，返回该分支上的消息（根在前）
+ */
+export function getBranch(conv, leafId = conv.currentLeafId) {
+  const byId = new Map(conv.messages.map(m => [m.id, m]))
+  const path = []
+  let node = leafId ? byId.get(leafId) : null
+  while (node) {
+    path.unshift(node)
+    node = node.parentId ? byId.get(node.parentId) : null
+  }
+  return path
+}
+
+/**
+ * 将指定分支的消息转换为 LLM 历史（仅保留 role + 文本内容，带图片的消息转换为内容块）
+ */
+export function toLLMHistory(conv, leafId = conv.currentLeafId) {
+  return getBranch(conv, leafId)
+    .filter(m => m.content || m.images?.length || m.files?.length)
+    .map(m => ({ role: m.role, content: toContentBlocks(withFileNote(m.content, m.files), m.images) }))
+}
+
+/**
+ * 将 runChat 的事件累积到 assistant 消息上（文本、思考过程、工具调用等），用于落盘
+ */
+export function collectEvent(msg, type, data) {
+  if (type === 'text') {
+    msg.content += data.content
+  } else if (type === 'thinking') {
+    msg.thinking = (msg.thinking || '') + data.content
+  } else if (type === 'model') {
+    msg.modelId = data.modelId
+    msg.modelName = data.modelName
+    if (data.fallback) {
+      msg.fallback = true
+      msg.fallbackReason = data.reason
+    }
+  } else if (type === 'usage') {
+    // 一次回答可能包含多次 LLM 调用（工具调用轮次），累加
+    const usage = msg.usage || { inputTokens: 0, outputTokens: 0, cost: 0 }
+    msg.usage = {
+      inputTokens: usage.inputTokens + data.inputTokens,
+      outputTokens: usage.outputTokens + data.outputTokens,
+      cost: usage.cost + data.cost,
+    }
+  } else if (type === 'tool_call') {
+    msg.toolCalls.push({ id: data.toolUseId, tool: data.tool, agentName: data.agentName, input: data.input })
+  } else if (type === 'tool_result') {
+    // 同一轮的工具并发执行，按 toolUseId 对应到调用
+    const call = msg.toolCalls.find(tc => tc.id === data.toolUseId)
+    if (call) {
+      call.result = data.content
+      call.durationMs = data.durationMs
+    }
+  }
+}
@@ -1,6 +1,6 @@
 import { spawn } from 'node:child_process'
 import { mkdtemp, mkdir, writeFile, rm } from 'node:fs/promises'
-import { join, dirname, extname } from 'node:path'
+import { join, dirname, extname, basename } from 'node:path'
 import { tmpdir } from 'node:os'
 
 const OUTPUT_LIMIT = 50 * 1024  // 50 KB
@@ -47,9 +47,11 @@ export const isDockerAvailable = () => _dockerAvailable
  * @param {object} skill        - SkillConfig（需含 skill.scripts）
  * @param {string} scriptPath   - 相对路径，如 "scripts/analyze.py"
  * @param {string} argsStr      - CLI 参数字符串，如 "file.pdf --pages 2"
+ * @param {AbortSignal} [signal] - 中止信号，触发时强制移除容器
+ * @param {Array} [files]       - 用户上传的附件 [{ name, path }]，以只读方式挂载为 /workspace/<name>
  * @returns {{ stdout, stderr, exitCode }}
  */
-export async function runScript(skill, scriptPath, argsStr) {
+export async function runScript(skill, scriptPath, argsStr, signal, files = []) {
   if (!_dockerAvailable) {
     return { stdout: '', stderr: 'Docker is not available on this system.', exitCode: 1 }
   }
@@ -74,6 +76,9 @@ export async function runScript(skill, scriptPath, argsStr) {
 
   // 创建临时目录，写入所有脚本文件
   const tmpDir = await mkdtemp(join(tmpdir(), 'willknow-skill-'))
+  // 容器命名，便于中止或超时时通过 docker rm -f 清理（仅杀掉 docker CLI 进程不会停止容器）
+  const containerName = basename(tmpDir)
+  let finished = false
   try {
     // 写入 skill 的所有脚本/依赖文件
     await Promise.all(
@@ -99,28 +104,42 @@ export async function runScript(skill, scriptPath, argsStr) {
     // 解析 args 字符串为数组（不经过 shell，避免注入）
     const scriptArgs = argsStr?.trim() ? argsStr.trim().split(/\s+/) : []
 
+    // 附件逐个只读挂载到 /workspace 下，与脚本文件同名的跳过（脚本优先）
+    const fileMounts = files
+      .filter(f => !(f.name in scripts) && f.name !== '__willknow_run__.sh')
+      .flatMap(f => ['-v', `${f.path}:/workspace/${f.name}:ro`])
+
     const dockerArgs = [
       'run', '--rm',
+      '--name', containerName,
       '--memory=256m',
       '--cpus=0.5',
       '-v', `${tmpDir}:/workspace`,
+      ...fileMounts,
       '-w', '/workspace',
       lang.image,
       'sh', '__willknow_run__.sh',
       ...scriptArgs,
     ]
 
-    return await _spawnPromise('docker', dockerArgs, TIMEOUT_MS)
+    const result = await _spawnPromise('docker', dockerArgs, TIMEOUT_MS, signal)
+    finished = true
+    return result
 
   } finally {
+    if (!finished) await _spawnPromise('docker', ['rm', '-f', containerName], 10_000).catch(() => {})
     await rm(tmpDir, { recursive: true, force: true }).catch(() => {})
   }
 }
 
 // ─── 内部辅助 ──────────────────────────────────────────────────────────────
 
-function _spawnPromise(cmd, args, timeoutMs) {
+function _spawnPromise(cmd, args, timeoutMs, signal) {
   return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason)
+      return
+    }
     const proc = spawn(cmd, args, { stdio: ['ignore', 'pipe', 'pipe'] })
     let stdoutBuf = Buffer.alloc(0)
     let stderrBuf = Buffer.alloc(0)
@@ -130,6 +149,9 @@ function _spawnPromise(cmd, args, timeoutMs) {
       ? setTimeout(() => { timedOut = true; proc.kill('SIGKILL') }, timeoutMs)
       : null
 
+    const onAbort = () => proc.kill('SIGKILL')
+    signal?.addEventListener('abort', onAbort, { once: true })
+
     proc.stdout.on('data', chunk => {
       stdoutBuf = Buffer.concat([stdoutBuf, chunk])
       if (stdoutBuf.length > OUTPUT_LIMIT) stdoutBuf = stdoutBuf.subarray(0, OUTPUT_LIMIT)
@@ -141,6 +163,11 @@ function _spawnPromise(cmd, args, timeoutMs) {
 
     proc.on('close', code => {
       if (timer) clearTimeout(timer)
+      signal?.removeEventListener('abort', onAbort)
+      if (signal?.aborted) {
+        reject(signal.reason)
+        return
+      }
       if (timedOut) {
         reject(new Error(`Script timed out after ${timeoutMs / 1000}s`))
         return
@@ -159,6 +186,7 @@ function _spawnPromise(cmd, args, timeoutMs) {
 
     proc.on('error', err => {
       if (timer) clearTimeout(timer)
+      signal?.removeEventListener('abort', onAbort)
       // initDocker 失败时 reject，runScript 时返回错误信息
       if (cmd === 'docker' && args[0] === 'info') {
         reject(err)
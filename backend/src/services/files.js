@@ -0,0 +1,106 @@
+import { readdirSync, statSync, writeFileSync, mkdirSync, rmSync, existsSync } from 'fs'
+import { join, resolve, extname } from 'path'
+import { DATA_DIR } from '../config/index.js'
+
+const FILES_DIR = resolve(DATA_DIR, 'files')
+
+// 单个附件上限
+export const MAX_FILE_BYTES = 20 * 1024 * 1024
+
+// 对话 / 通道 ID 只允许字母数字、下划线和连字符，防止路径穿越
+const ID_PATTERN = /^[\w-]+$/
+
+/**
+ * 附件存储：用户上传的文件按对话（或通道会话）存放，
+ * 执行技能脚本时以只读方式挂载到容器的 /workspace 下，LLM 通过文件名引用
+ *
+ *   files/conversations/<conversationId>/<文件名>
+ *   files/channels/<channelId>/<base64url(chatId)>/<文件名>
+ */
+
+export function getConversationFilesDir(conversationId) {
+  if (!ID_PATTERN.test(conversationId)) throw new Error(`Invalid conversation id: ${conversationId}`)
+  return join(FILES_DIR, 'conversations', conversationId)
+}
+
+export function getChannelFilesDir(channelId, chatId) {
+  if (!ID_PATTERN.test(channelId)) throw new Error(`Invalid channel id: ${channelId}`)
+  return join(FILES_DIR, 'channels', channelId, Buffer.from(chatId).toString('base64url'))
+}
+
+/**
+ * 规范化文件名：去掉目录部分和控制字符，空白替换为下划线（脚本参数按空白拆分），
+ * 不允许以 . 开头（避免隐藏文件及 . / ..），过长时保留扩展名截断
+ */
+export function sanitizeFileName(name) {
+  let safe = String(name ?? '')
+    .split(/[/\\]/).pop()
+    .replace(/[\x00-\x1f\x7f]/g, '')
+    .replace(/\s+/g, '_')
+    .replace(/^\.+/, '')
+  if (safe.length > 100) {
+    const ext = extname(safe).slice(0, 20)
+    safe = safe.slice(0, 100 - ext.length) + ext
+  }
+  return safe
+}
+
+/**
+ * 列出目录中的附件：[{ name, size, path, uploadedAt }]，按上传时间排序
+ */
+export function listFiles(dir) {
+  if (!existsSync(dir)) return []
+  return readdirSync(dir, { withFileTypes: true })
+    .filter(entry => entry.isFile())
+    .map(entry => {
+      const path = join(dir, entry.name)
+      const stat = statSync(path)
+      return { name: entry.name, size: stat.size, path, uploadedAt: Math.round(stat.mtimeMs) }
+    })
+    .sort((a, b) => a.uploadedAt - b.uploadedAt)
+}
+
+export function getFilePath(dir, name) {
+  if (!name || sanitizeFileName(name) !== name) return null
+  const path = join(dir, name)
+  return existsSync(path) ? path : null
+}
+
+/**
+ * 保存附件，同名文件已存在时追加序号（report.pdf → report-1.pdf），返回 { name, size }
+ */
+export function saveFile(dir, name, data) {
+  const safe = sanitizeFileName(name)
+  if (!safe) throw new Error('Invalid file name')
+  if (data.length > MAX_FILE_BYTES) throw new Error(`File too large: ${data.length} bytes`)
+  mkdirSync(dir, { recursive: true })
+  const ext = extname(safe)
+  const stem = safe.slice(0, safe.length - ext.length)
+  let finalName = safe
+  for (let i = 1; existsSync(join(dir, finalName)); i++) finalName = `${stem}-${i}${ext}`
+  writeFileSync(join(dir, finalName), data)
+  return { name: finalName, size: data.length }
+}
+
+export function deleteFile(dir, name) {
+  const path = getFilePath(dir, name)
+  if (!path) return false
+  rmSync(path)
+  return true
+}
+
+/**
+ * 删除整个附件目录（对话删除、通道会话清空时调用）
+ */
+export function removeFiles(dir) {
+  rmSync(dir, { recursive: true, force: true })
+}
+
+/**
+ * 在用户消息后附上本条消息上传的文件名，供 LLM 在调用 run_skill_script 时引用
+ */
+export function withFileNote(text, fileNames = []) {
+  if (fileNames.length === 0) return text
+  const note = `[Attached files: ${fileNames.join(', ')}]`
+  return text ? `${text}\n\n${note}` : note
+}
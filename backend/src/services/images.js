@@ -0,0 +1,70 @@
+import { readFileSync, writeFileSync, mkdirSync, existsSync } from 'fs'
+import { join, resolve } from 'path'
+import { v4 as uuidv4 } from 'uuid'
+import { DATA_DIR } from '../config/index.js'
+
+const IMAGES_DIR = resolve(DATA_DIR, 'images')
+
+// 支持的图片格式（Anthropic 与主流视觉模型均支持）→ 文件扩展名
+export const IMAGE_TYPES = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/gif': 'gif',
+  'image/webp': 'webp',
+}
+
+// 单张图片上限（Anthropic 限制为 5MB）
+export const MAX_IMAGE_BYTES = 5 * 1024 * 1024
+
+// 图片 ID 即文件名：<uuid>.<ext>，同时防止路径穿越
+const ID_PATTERN = /^[\w-]+\.(png|jpg|gif|webp)$/
+
+/**
+ * 图片存储：网页上传和通道收到的图片保存在 DATA_DIR/images，消息中只记录图片 ID
+ */
+
+export function isImageId(id) {
+  return typeof id === 'string' && ID_PATTERN.test(id)
+}
+
+export function getMediaType(id) {
+  const ext = id.slice(id.lastIndexOf('.') + 1)
+  return Object.keys(IMAGE_TYPES).find(type => IMAGE_TYPES[type] === ext)
+}
+
+export function getImagePath(id) {
+  if (!isImageId(id)) return null
+  const path = join(IMAGES_DIR, id)
+  return existsSync(path) ? path : null
+}
+
+/**
+ * 保存图片，返回图片 ID；格式不支持或超出大小时抛出错误
+ */
+export function saveImage(data, mediaType) {
+  const ext = IMAGE_TYPES[mediaType]
+  if (!ext) throw new Error(`Unsupported image type: ${mediaType}`)
+  if (data.length > MAX_IMAGE_BYTES) throw new Error(`Image too large: ${data.length} bytes`)
+  mkdirSync(IMAGES_DIR, { recursive: true })
+  const id = `${uuidv4()}.${ext}`
+  writeFileSync(join(IMAGES_DIR, id), data)
+  return id
+}
+
+/**
+ * 将文本 + 图片转换为 LLM 消息内容（Anthropic 格式，OpenAI 兼容接口在发送时转换为 image_url）
+ * 没有图片时直接返回文本；图片文件已丢失时以文字占位
+ */
+export function toContentBlocks(text, imageIds = []) {
+  if (imageIds.length === 0) return text
+  const blocks = imageIds.map(id => {
+    const path = getImagePath(id)
+    if (!path) return { type: 'text', text: '[图片已丢失]' }
+    return {
+      type: 'image',
+      source: { type: 'base64', media_type: getMediaType(id), data: readFileSync(path).toString('base64') },
+    }
+  })
+  if (text) blocks.push({ type: 'text', text })
+  return blocks
+}
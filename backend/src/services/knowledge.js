@@ -0,0 +1,429 @@
+import { readFileSync, writeFileSync, mkdirSync, rmSync, existsSync } from 'fs'
+import { join, extname } from 'path'
+import { v4 as uuidv4 } from 'uuid'
+import fetch from 'node-fetch'
+import { extractText, getDocumentProxy } from 'unpdf'
+import { DATA_DIR } from '../config/index.js'
+
+const KNOWLEDGE_DIR = join(DATA_DIR, 'knowledge')
+
+// 单个文档上限
+export const MAX_DOCUMENT_BYTES = 20 * 1024 * 1024
+
+// 支持的文档格式：扩展名 → 类型
+const DOCUMENT_TYPES = {
+  '.md': 'markdown',
+  '.markdown': 'markdown',
+  '.txt': 'text',
+  '.pdf': 'pdf',
+}
+
+// 分块：每块约 CHUNK_CHARS 个字符，相邻块重叠 CHUNK_OVERLAP 个字符
+const CHUNK_CHARS = 1000
+const CHUNK_OVERLAP = 150
+
+// BM25 参数
+const BM25_K1 = 1.2
+const BM25_B = 0.75
+// 混合检索时 BM25 与向量检索结果按 RRF（Reciprocal Rank Fusion）合并
+const RRF_K = 60
+// 每次请求 /embeddings 的文本数
+const EMBEDDING_BATCH = 64
+
+export const DEFAULT_TOP_K = 5
+export const MAX_TOP_K = 10
+
+// 集合 ID 只允许字母数字、下划线和连字符，防止路径穿越
+const ID_PATTERN = /^[\w-]+$/
+
+/**
+ * 本地知识库：集合配置（名称、描述、向量模型）保存在 config.json 的 knowledge 字段，
+ * 文档分块后的索引保存在 DATA_DIR/knowledge/<集合 ID>.json：
+ *
+ *   { documents: [{ id, name, type, size, chunkCount, createdAt }],
+ *     chunks: [{ docId, text, heading?, page?, embedding? }],
+ *     embeddingModel: string | null }
+ *
+ * 检索使用 BM25（中文按字二元组切词）；集合配置了 embedding 且索引由同一模型生成时，
+ * 再与向量相似度检索的结果按 RRF 合并。
+ */
+
+// 已加载的索引缓存：collectionId → { index, terms }（terms 为各分块的词频统计，检索时使用）
+const cache = new Map()
+// 同一集合的索引修改（添加 / 删除文档、重建）串行执行，避免并发上传互相覆盖
+const queues = new Map()
+
+function serialize(collectionId, fn) {
+  const prev = queues.get(collectionId) || Promise.resolve()
+  const run = prev.then(fn, fn)
+  const tail = run.catch(() => {})
+  queues.set(collectionId, tail)
+  tail.then(() => { if (queues.get(collectionId) === tail) queues.delete(collectionId) })
+  return run
+}
+
+function indexPath(collectionId) {
+  if (!ID_PATTERN.test(collectionId)) throw new Error(`Invalid collection id: ${collectionId}`)
+  return join(KNOWLEDGE_DIR, `${collectionId}.json`)
+}
+
+function loadIndex(collectionId) {
+  const cached = cache.get(collectionId)
+  if (cached) return cached.index
+  const path = indexPath(collectionId)
+  const index = existsSync(path)
+    ? JSON.parse(readFileSync(path, 'utf-8'))
+    : { documents: [], chunks: [], embeddingModel: null }
+  cache.set(collectionId, { index, terms: null })
+  return index
+}
+
+function saveIndex(collectionId, index) {
+  mkdirSync(KNOWLEDGE_DIR, { recursive: true })
+  writeFileSync(indexPath(collectionId), JSON.stringify(index), 'utf-8')
+  cache.set(collectionId, { index, terms: null })
+}
+
+export function listDocuments(collectionId) {
+  return loadIndex(collectionId).documents
+}
+
+/**
+ * 删除集合的索引（集合从配置中删除时调用）
+ */
+export function removeCollection(collectionId) {
+  return serialize(collectionId, () => {
+    cache.delete(collectionId)
+    rmSync(indexPath(collectionId), { force: true })
+  })
+}
+
+// ─── 文档解析与分块 ──────────────────────────────────────────────────────────
+
+export function getDocumentType(name) {
+  return DOCUMENT_TYPES[extname(name || '').toLowerCase()] || null
+}
+
+/**
+ * 解析文档为若干段落 [{ text, heading?, page? }]：Markdown 按标题分节，PDF 按页
+ */
+async function parseDocument(type, data) {
+  if (type === 'pdf') {
+    const pdf = await getDocumentProxy(new Uint8Array(data))
+    const { text: pages } = await extractText(pdf, { mergePages: false })
+    return pages.map((text, i) => ({ text, page: i + 1 }))
+  }
+  const text = data.toString('utf-8').replace(/^\uFEFF/, '')
+  if (type === 'text') return [{ text }]
+
+  // Markdown：按标题分节，记录标题路径（如 "部署 > Docker"），代码块中的 # 不算标题
+  const sections = []
+  const headings = []
+  let lines = []
+  let inFence = false
+  // 只有标题行、没有正文的小节不单独成块
+  let hasBody = false
+  const flush = () => {
+    if (hasBody) sections.push({ text: lines.join('\n'), heading: headings.filter(Boolean).join(' > ') || undefined })
+    lines = []
+    hasBody = false
+  }
+  for (const line of text.split('\n')) {
+    if (/^\s*(```|~~~)/.test(line)) inFence = !inFence
+    const match = !inFence && line.match(/^(#{1,6})\s+(.+?)\s*#*\s*$/)
+    if (match) {
+      flush()
+      headings.length = match[1].length
+      headings[match[1].length - 1] = match[2]
+    } else if (line.trim()) {
+      hasBody = true
+    }
+    lines.push(line)
+  }
+  flush()
+  return sections
+}
+
+/**
+ * 将一段文本切分为不超过 CHUNK_CHARS 的块：优先在空行处断开，超长段落按句子 / 字符截断，相邻块保留重叠
+ */
+function splitText(text) {
+  const normalized = text.replace(/\r\n?/g, '\n').replace(/[ \t]+\n/g, '\n').replace(/\n{3,}/g, '\n\n').trim()
+  if (!normalized) return []
+  if (normalized.length <= CHUNK_CHARS) return [normalized]
+
+  // 先拆成不超过 CHUNK_CHARS 的片段
+  const pieces = []
+  for (const paragraph of normalized.split(/\n\n/)) {
+    if (paragraph.length <= CHUNK_CHARS) {
+      pieces.push(paragraph)
+      continue
+    }
+    const sentences = paragraph.match(/[^。！？.!?\n]+[。！？.!?\n]*/g) || [paragraph]
+    for (const sentence of sentences) {
+      for (let i = 0; i < sentence.length; i += CHUNK_CHARS) pieces.push(sentence.slice(i, i + CHUNK_CHARS))
+    }
+  }
+
+  // 再合并为块，新块以上一块末尾的 CHUNK_OVERLAP 个字符开头
+  const chunks = []
+  let current = ''
+  for (const piece of pieces) {
+    if (current && current.length + piece.length + 2 > CHUNK_CHARS) {
+      chunks.push(current)
+      const tail = current.slice(-CHUNK_OVERLAP)
+      current = tail.length + piece.length + 2 <= CHUNK_CHARS ? tail : ''
+    }
+    current = current ? `${current}\n\n${piece}` : piece
+  }
+  if (current) chunks.push(current)
+  return chunks
+}
+
+// ─── 向量 ────────────────────────────────────────────────────────────────────
+
+/**
+ * 调用 OpenAI 兼容接口的 /embeddings，返回与 texts 一一对应的向量
+ */
+async function embed(embedding, texts, signal) {
+  const base = (embedding.baseURL || 'https://api.openai.com/v1').replace(/\/$/, '')
+  const vectors = []
+  for (let i = 0; i < texts.length; i += EMBEDDING_BATCH) {
+    const res = await fetch(`${base}/embeddings`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(embedding.apiKey && { 'Authorization': `Bearer ${embedding.apiKey}` }),
+      },
+      body: JSON.stringify({ model: embedding.model, input: texts.slice(i, i + EMBEDDING_BATCH) }),
+      signal: signal || AbortSignal.timeout(60000),
+    })
+    if (!res.ok) {
+      const text = await res.text()
+      throw new Error(`Embeddings API error ${res.status}: ${text.slice(0, 300)}`)
+    }
+    const data = await res.json()
+    const batch = [...(data.data || [])].sort((a, b) => a.index - b.index).map(d => d.embedding)
+    if (batch.length !== Math.min(EMBEDDING_BATCH, texts.length - i)) {
+      throw new Error('Embeddings API returned an unexpected number of vectors')
+    }
+    vectors.push(...batch)
+  }
+  return vectors
+}
+
+// 分块用于生成向量的文本：带上文档名和标题，提高召回
+function embeddingInput(chunk, docName) {
+  return [docName, chunk.heading, chunk.text].filter(Boolean).join('\n')
+}
+
+function hasEmbedding(collection) {
+  return !!(collection.embedding?.model)
+}
+
+// ─── 文档管理 ────────────────────────────────────────────────────────────────
+
+/**
+ * 添加文档：解析、分块，集合配置了 embedding 时同时生成向量
+ * @returns {Promise<object>} 文档信息 { id, name, type, size, chunkCount, createdAt }
+ */
+export async function addDocument(collection, name, data) {
+  const type = getDocumentType(name)
+  if (!type) throw new Error(`Unsupported document type: ${name}（支持 ${Object.keys(DOCUMENT_TYPES).join(' ')}）`)
+  if (data.length > MAX_DOCUMENT_BYTES) throw new Error(`Document too large: ${data.length} bytes`)
+
+  const doc = { id: uuidv4(), name, type, size: data.length, chunkCount: 0, createdAt: Date.now() }
+  const chunks = []
+  for (const section of await parseDocument(type, data)) {
+    for (const text of splitText(section.text)) {
+      chunks.push({ docId: doc.id, text, heading: section.heading, page: section.page })
+    }
+  }
+  if (chunks.length === 0) throw new Error('No text could be extracted from the document')
+
+  return serialize(collection.id, async () => {
+    const index = loadIndex(collection.id)
+    // 空集合的索引使用当前配置的向量模型；已有文档的向量来自其他模型（或没有向量）时不混用，需重建索引
+    const embeddingModel = index.documents.length === 0
+      ? (hasEmbedding(collection) ? collection.embedding.model : null)
+      : index.embeddingModel
+    if (embeddingModel && embeddingModel === collection.embedding?.model) {
+      const vectors = await embed(collection.embedding, chunks.map(c => embeddingInput(c, name)))
+      chunks.forEach((c, i) => { c.embedding = vectors[i] })
+    }
+    doc.chunkCount = chunks.length
+
+    saveIndex(collection.id, {
+      documents: [...index.documents, doc],
+      chunks: [...index.chunks, ...chunks],
+      embeddingModel,
+    })
+    return doc
+  })
+}
+
+export function deleteDocument(collectionId, docId) {
+  return serialize(collectionId, () => {
+    const index = loadIndex(collectionId)
+    if (!index.documents.some(d => d.id === docId)) return false
+    saveIndex(collectionId, {
+      documents: index.documents.filter(d => d.id !== docId),
+      chunks: index.chunks.filter(c => c.docId !== docId),
+      embeddingModel: index.documents.length > 1 ? index.embeddingModel : null,
+    })
+    return true
+  })
+}
+
+/**
+ * 按集合当前的 embedding 配置重新生成所有分块的向量（未配置时清除向量，只用 BM25）
+ */
+export function reindexCollection(collection) {
+  return serialize(collection.id, async () => {
+    const index = loadIndex(collection.id)
+    const names = new Map(index.documents.map(d => [d.id, d.name]))
+    const chunks = index.chunks.map(({ embedding: _embedding, ...c }) => c)
+    let embeddingModel = null
+    if (hasEmbedding(collection) && chunks.length > 0) {
+      const vectors = await embed(collection.embedding, chunks.map(c => embeddingInput(c, names.get(c.docId))))
+      chunks.forEach((c, i) => { c.embedding = vectors[i] })
+      embeddingModel = collection.embedding.model
+    }
+    saveIndex(collection.id, { documents: index.documents, chunks, embeddingModel })
+    return { chunkCount: chunks.length, embeddingModel }
+  })
+}
+
+/**
+ * 集合状态：文档数、分块数、向量索引是否与当前配置一致
+ */
+export function getCollectionStatus(collection) {
+  const index = loadIndex(collection.id)
+  const wanted = hasEmbedding(collection) ? collection.embedding.model : null
+  return {
+    documentCount: index.documents.length,
+    chunkCount: index.chunks.length,
+    embeddingModel: index.embeddingModel,
+    needsReindex: index.chunks.length > 0 && index.embeddingModel !== wanted,
+  }
+}
+
+// ─── 检索 ────────────────────────────────────────────────────────────────────
+
+// 中日韩文字（无空格分词）
+const CJK = '\\p{Script=Han}\\p{Script=Hiragana}\\p{Script=Katakana}\\p{Script=Hangul}'
+const TOKEN_PATTERN = new RegExp(`[${CJK}]+|[^\\s\\p{P}\\p{S}${CJK}]+`, 'gu')
+const CJK_PATTERN = new RegExp(`^[${CJK}]`, 'u')
+
+/**
+ * 切词：英文 / 数字按单词（小写），中日韩文字按单字和相邻两字（bigram）
+ */
+export function tokenize(text) {
+  const tokens = []
+  for (const run of text.toLowerCase().match(TOKEN_PATTERN) || []) {
+    if (!CJK_PATTERN.test(run)) {
+      tokens.push(run)
+      continue
+    }
+    const chars = [...run]
+    chars.forEach((ch, i) => {
+      tokens.push(ch)
+      if (i + 1 < chars.length) tokens.push(ch + chars[i + 1])
+    })
+  }
+  return tokens
+}
+
+// 各分块的词频与 BM25 所需的统计量（首次检索时计算并缓存）
+function getTermStats(collectionId) {
+  const index = loadIndex(collectionId)
+  const entry = cache.get(collectionId)
+  if (entry.terms) return entry.terms
+
+  const names = new Map(index.documents.map(d => [d.id, d.name]))
+  const docFreq = new Map()
+  const chunks = index.chunks.map(chunk => {
+    const tokens = tokenize([names.get(chunk.docId), chunk.heading, chunk.text].filter(Boolean).join('\n'))
+    const tf = new Map()
+    for (const t of tokens) tf.set(t, (tf.get(t) || 0) + 1)
+    for (const t of tf.keys()) docFreq.set(t, (docFreq.get(t) || 0) + 1)
+    return { tf, length: tokens.length }
+  })
+  const avgLength = chunks.reduce((sum, c) => sum + c.length, 0) / (chunks.length || 1)
+  entry.terms = { chunks, docFreq, avgLength }
+  return entry.terms
+}
+
+function bm25Rank(collectionId, query) {
+  const { chunks, docFreq, avgLength } = getTermStats(collectionId)
+  const terms = [...new Set(tokenize(query))]
+  const n = chunks.length
+  const scored = []
+  chunks.forEach((chunk, i) => {
+    let score = 0
+    for (const term of terms) {
+      const f = chunk.tf.get(term)
+      if (!f) continue
+      const df = docFreq.get(term)
+      const idf = Math.log(1 + (n - df + 0.5) / (df + 0.5))
+      score += idf * (f * (BM25_K1 + 1)) / (f + BM25_K1 * (1 - BM25_B + BM25_B * chunk.length / avgLength))
+    }
+    if (score > 0) scored.push({ i, score })
+  })
+  return scored.sort((a, b) => b.score - a.score)
+}
+
+function cosine(a, b) {
+  let dot = 0, na = 0, nb = 0
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i]
+    na += a[i] * a[i]
+    nb += b[i] * b[i]
+  }
+  return na && nb ? dot / Math.sqrt(na * nb) : 0
+}
+
+/**
+ * 在若干集合中检索，返回得分最高的 topK 个分块
+ * [{ collection, document, heading?, page?, text, score }]
+ */
+export async function searchKnowledge(collections, query, { topK = DEFAULT_TOP_K, signal } = {}) {
+  const results = []
+  for (const collection of collections) {
+    const index = loadIndex(collection.id)
+    if (index.chunks.length === 0) continue
+    const names = new Map(index.documents.map(d => [d.id, d.name]))
+
+    // 每个集合各取 topK 个候选：BM25 排名，可用时与向量排名按 RRF 合并
+    const lists = [bm25Rank(collection.id, query)]
+    if (hasEmbedding(collection) && index.embeddingModel === collection.embedding.model) {
+      try {
+        const [vector] = await embed(collection.embedding, [query], signal)
+        lists.push(index.chunks
+          .map((c, i) => ({ i, score: c.embedding ? cosine(vector, c.embedding) : -1 }))
+          .sort((a, b) => b.score - a.score)
+          .slice(0, topK * 4))
+      } catch (err) {
+        if (signal?.aborted) throw err
+        // 向量接口不可用时退化为仅 BM25 排名
+        console.warn(`[knowledge] 集合「${collection.name}」向量检索失败，仅使用关键词检索: ${err.message}`)
+      }
+    }
+    const fused = new Map()
+    for (const list of lists) {
+      list.slice(0, topK * 4).forEach(({ i }, rank) => fused.set(i, (fused.get(i) || 0) + 1 / (RRF_K + rank + 1)))
+    }
+    for (const [i, score] of fused) {
+      const chunk = index.chunks[i]
+      results.push({
+        collection: collection.name,
+        document: names.get(chunk.docId),
+        heading: chunk.heading,
+        page: chunk.page,
+        text: chunk.text,
+        score,
+      })
+    }
+  }
+  return results.sort((a, b) => b.score - a.score).slice(0, topK)
+}
@@ -1,8 +1,14 @@
 import fetch from 'node-fetch'
-import { callSubAgent } from './subagent.js'
+import { callSubAgent, invokeSubAgent } from './subagent.js'
+import { callMcpTool } from './mcp.js'
 import { isDockerAvailable, runScript } from './executor.js'
+import { priceUsage } from './usage.js'
+import { compactHistory, getMaxOutputTokens, getThinkingBudget } from './context.js'
+import { searchKnowledge, DEFAULT_TOP_K, MAX_TOP_K } from './knowledge.js'
 
 const MAX_TURNS = 10
+// 同一轮中并发执行的 tool call 上限
+const TOOL_CONCURRENCY = Number(process.env.TOOL_CONCURRENCY) || 4
 
 // ─── Skills: read_skill tool (progressive disclosure) ────────────────────────
 
@@ -21,6 +27,32 @@ const READ_SKILL_TOOL = {
   },
 }
 
+// ─── Knowledge: search_knowledge tool ────────────────────────────────────────
+
+const SEARCH_KNOWLEDGE_TOOL = {
+  name: 'search_knowledge',
+  description: 'Search the local knowledge base (internal documents listed in <knowledge_collections>) and return ' +
+    'the most relevant passages, numbered for citation. Use it whenever the question may be answered by internal docs.',
+  input_schema: {
+    type: 'object',
+    properties: {
+      query: {
+        type: 'string',
+        description: 'Search query: key terms or a short question, in the language of the documents',
+      },
+      collection: {
+        type: 'string',
+        description: 'Optional collection name from <knowledge_collections>; omit to search all collections',
+      },
+      top_k: {
+        type: 'integer',
+        description: `Number of passages to return (default ${DEFAULT_TOP_K}, max ${MAX_TOP_K})`,
+      },
+    },
+    required: ['query'],
+  },
+}
+
 const RUN_SKILL_SCRIPT_TOOL = {
   name: 'run_skill_script',
   description: 'Execute a script from an installed skill inside a Docker container. ' +
@@ -39,7 +71,8 @@ const RUN_SKILL_SCRIPT_TOOL = {
       },
       args: {
         type: 'string',
-        description: "CLI args as one string, e.g. 'file.pdf --pages 2'. Empty string if none.",
+        description: "CLI args as one string, e.g. 'file.pdf --pages 2'. Files from <workspace_files> are in the " +
+          'working directory and can be passed by name. Empty string if none.',
       },
     },
     required: ['skill_name', 'script_path', 'args'],
@@ -54,6 +87,17 @@ function formatScriptResult({ stdout, stderr, exitCode }) {
   return parts.join('\n\n')
 }
 
+/**
+ * 检索结果格式化为带编号的引用段落，供 LLM 按 [n] 标注出处
+ */
+function formatKnowledgeResults(results) {
+  if (results.length === 0) return 'No relevant passages found.'
+  return results.map((r, i) => {
+    const source = [r.document, r.heading, r.page && `p.${r.page}`].filter(Boolean).join(' · ')
+    return `[${i + 1}] ${source} (collection: ${r.collection})\n${r.text}`
+  }).join('\n\n---\n\n') + '\n\nCite the passages you use as [n] with the document name.'
+}
+
 function xmlEscape(str) {
   return String(str)
     .replace(/&/g, '&amp;')
@@ -80,37 +124,137 @@ function buildSystemPrompt(skills) {
   ].join('\n')
 }
 
+/**
+ * 列出可检索的知识库集合
+ */
+function buildKnowledgePrompt(collections) {
+  if (collections.length === 0) return null
+  const items = collections.map(c =>
+    `  <collection>\n    <name>${xmlEscape(c.name)}</name>\n    <description>${xmlEscape(c.description || '')}</description>\n  </collection>`
+  ).join('\n')
+  return [
+    'You can search the following knowledge collections with the search_knowledge tool.',
+    'Prefer them over your own knowledge for internal or domain-specific questions, and cite the passages you use.',
+    '',
+    '<knowledge_collections>',
+    items,
+    '</knowledge_collections>',
+  ].join('\n')
+}
+
+/**
+ * 列出用户上传的附件（run_skill_script 执行时挂载在工作目录中）
+ */
+function buildFilesPrompt(files) {
+  if (files.length === 0) return null
+  const items = files.map(f =>
+    `  <file>\n    <name>${xmlEscape(f.name)}</name>\n    <size>${f.size}</size>\n  </file>`
+  ).join('\n')
+  return [
+    'The user has uploaded the following files. They are available read-only in the working directory of run_skill_script,',
+    'so pass them to scripts by file name (e.g. args "report.pdf"). You cannot read them directly.',
+    '',
+    '<workspace_files>',
+    items,
+    '</workspace_files>',
+  ].join('\n')
+}
+
+/**
+ * 将较早对话的摘要附加到系统提示词
+ */
+function withSummary(systemPrompt, summary) {
+  if (!summary) return systemPrompt
+  const block = [
+    '<conversation_summary>',
+    'The earlier part of this conversation was summarized to fit the context window:',
+    summary,
+    '</conversation_summary>',
+  ].join('\n')
+  return systemPrompt ? `${systemPrompt}\n\n${block}` : block
+}
+
 // ─── Main chat loop ───────────────────────────────────────────────────────────
 
 /**
  * 主 LLM 调用服务，支持 SSE 流式输出 + SubAgent tool calling + Skills (progressive disclosure)
  *
  * @param {object}   model            - 模型配置 { provider, apiKey, baseURL, model }
- * @param {Array}    messages         - 对话历史 [{ role, content }]
- * @param {Array}    subAgentTools    - [{ subAgentId, subAgentUrl, subAgentAuth, tool }]
+ * @param {Array}    messages         - 完整对话历史 [{ role, content }]，超出模型上下文窗口时由 compactHistory 压缩
+ * @param {Array}    subAgentTools    - [{ subAgentId, subAgentUrl, subAgentAuth, agentName, capability?, tool }]
  * @param {object}   subAgentSessions - { subAgentId: sessionId }
  * @param {Function} onEvent         - SSE 事件回调 (type, data)
  * @param {Array}    skills           - SkillConfig[] from config
+ * @param {object}   options
+ * @param {AbortSignal} [options.signal] - 中止信号：取消进行中的 LLM 流、SubAgent 请求和脚本容器
+ * @param {string} [options.systemPrompt] - 自定义系统提示词（如通道绑定的人设），置于技能说明之前
+ * @param {Array}  [options.fallbackModels] - 备用模型，按顺序在主模型调用失败时接替（见 callWithFallback）
+ * @param {number} [options.toolConcurrency] - 同一轮并发执行的 tool call 上限，默认取环境变量 TOOL_CONCURRENCY（4）
+ * @param {Array}  [options.files] - 对话的附件 [{ name, size, path }]，执行技能脚本时挂载到 /workspace
+ * @param {Array}  [options.knowledge] - 知识库集合配置（config.knowledge），已启用的可通过 search_knowledge 检索
+ * @param {Array}  [options.mcpTools] - MCP server 提供的工具 [{ server, mcpToolName, tool }]（见 loadMcpTools）
+ * @param {object} [options.compaction] - 随对话保存的上下文压缩摘要，生成新摘要时原地更新（见 compactHistory）
  */
-export async function runChat(model, messages, subAgentTools, subAgentSessions, onEvent, skills = []) {
+export async function runChat(model, messages, subAgentTools, subAgentSessions, onEvent, skills = [], options = {}) {
+  const { signal } = options
   const history = [...messages]
   const enabledSkills = skills.filter(s => s.enabled)
+  const knowledge = (options.knowledge || []).filter(c => c.enabled)
+  const mcpTools = options.mcpTools || []
 
-  // Tools: subAgent tools + read_skill + run_skill_script (if skills with scripts exist)
+  // Tools: subAgent tools + MCP tools + read_skill + search_knowledge + run_skill_script (if skills with scripts exist)
   const skillsWithScripts = enabledSkills.filter(
     s => s.hasScripts && s.scripts && Object.keys(s.scripts).length > 0
   )
   const tools = [
     ...subAgentTools.map(e => e.tool),
+    ...mcpTools.map(e => e.tool),
     ...(enabledSkills.length > 0     ? [READ_SKILL_TOOL]       : []),
+    ...(knowledge.length > 0         ? [SEARCH_KNOWLEDGE_TOOL] : []),
     ...(skillsWithScripts.length > 0 ? [RUN_SKILL_SCRIPT_TOOL] : []),
   ]
 
-  // System prompt: inject skill metadata only (progressive disclosure step 1)
-  const systemPrompt = buildSystemPrompt(enabledSkills)
+  // 附件只能通过技能脚本读取，没有可执行的脚本时不提示
+  const files = skillsWithScripts.length > 0 ? options.files || [] : []
+
+  // System prompt: custom prompt + skill metadata only (progressive disclosure step 1) + 知识库集合 + 附件列表
+  const systemPrompt = [
+    options.systemPrompt?.trim(), buildSystemPrompt(enabledSkills), buildKnowledgePrompt(knowledge), buildFilesPrompt(files),
+  ].filter(Boolean).join('\n\n') || null
+
+  // 模型链状态：切换到备用模型后，本次对话的后续轮次沿用该模型
+  // 最新的用户消息带图片时，主模型必须支持图片；不支持图片的备用模型不参与切换
+  const withImages = hasImages(history.findLast(isPlainUserMessage))
+  if (withImages && !model.vision) {
+    throw new Error(`模型「${model.name}」不支持图片输入，请切换到支持图片的模型，或在模型设置中开启「图片理解」`)
+  }
+  const fallbackModels = (options.fallbackModels || []).filter(m => !withImages || m.vision)
+  const failover = { chain: [model, ...fallbackModels], active: 0, announced: null }
+
+  // 用当前模型总结较早的对话（压缩上下文时使用）
+  const summarize = async prompt => {
+    const current = failover.chain[failover.active]
+    const response = await callLLM(current, [{ role: 'user', content: prompt }], [], () => {}, null, signal)
+    emitUsage(current, response.usage, onEvent)
+    return response.content.filter(b => b.type === 'text').map(b => b.text).join('')
+  }
+
+  const toolConcurrency = options.toolConcurrency || TOOL_CONCURRENCY
+  // 同一 SubAgent 的调用共用 session，通过 subAgentLocks 串行执行
+  const toolContext = {
+    enabledSkills, knowledge, subAgentTools, mcpTools, subAgentSessions, files, onEvent, signal, subAgentLocks: new Map(),
+  }
 
   for (let turn = 0; turn < MAX_TURNS; turn++) {
-    const response = await callLLM(model, history, tools, onEvent, systemPrompt)
+    signal?.throwIfAborted()
+    // 每次调用前按当前模型的上下文窗口压缩（工具调用轮次也会让历史增长）
+    const context = await compactHistory(failover.chain[failover.active], history, {
+      systemPrompt, tools, summarize, saved: options.compaction, signal,
+    })
+    if (context.compacted > 0) onEvent('compaction', { summarizedMessages: context.compacted })
+    const response = await callWithFallback(
+      failover, context.messages, tools, onEvent, withSummary(systemPrompt, context.summary), signal,
+    )
 
     // 将 assistant 消息追加到历史
     history.push({ role: 'assistant', content: response.content })
@@ -119,101 +263,213 @@ export async function runChat(model, messages, subAgentTools, subAgentSessions,
     const toolCalls = response.content.filter(b => b.type === 'tool_use')
     if (toolCalls.length === 0) break
 
-    // 执行每个 tool call
-    const toolResults = []
-    for (const tc of toolCalls) {
-      // ── read_skill: progressive disclosure step 2 ────────────────────────
-      if (tc.name === 'read_skill') {
-        const skillName = tc.input?.skill_name
-        const skill = enabledSkills.find(s => s.name === skillName)
-        const resultContent = skill
-          ? skill.content
-          : `Skill "${skillName}" not found. Available: ${enabledSkills.map(s => s.name).join(', ')}`
-        toolResults.push({ type: 'tool_result', tool_use_id: tc.id, content: resultContent })
-        continue
-      }
+    // 同一轮的 tool call 并发执行，结果按 tool_use 的顺序返回
+    const toolResults = await mapWithConcurrency(toolCalls, toolConcurrency, tc => executeToolCall(tc, toolContext))
 
-      // ── run_skill_script: Docker 脚本执行 ────────────────────────────────
-      if (tc.name === 'run_skill_script') {
-        const { skill_name, script_path, args } = tc.input ?? {}
-        const skill = enabledSkills.find(s => s.name === skill_name)
-        if (!skill) {
-          toolResults.push({
-            type: 'tool_result', tool_use_id: tc.id,
-            content: `Skill "${skill_name}" not found. Available: ${enabledSkills.map(s => s.name).join(', ')}`,
-          })
-          continue
-        }
-        if (!isDockerAvailable()) {
-          toolResults.push({
-            type: 'tool_result', tool_use_id: tc.id,
-            content: 'Docker is not available on this system. Cannot execute skill scripts.',
-          })
-          continue
-        }
-        onEvent('tool_call', {
-          tool: tc.name,
-          agentName: `执行脚本: ${skill_name}`,
-          input: `${script_path} ${args ?? ''}`.trim(),
-        })
-        try {
-          const result = await runScript(skill, script_path, args ?? '')
-          const content = formatScriptResult(result)
-          onEvent('tool_result', { tool: tc.name, content })
-          toolResults.push({ type: 'tool_result', tool_use_id: tc.id, content })
-        } catch (err) {
-          const errMsg = `脚本执行失败: ${err.message}`
-          onEvent('tool_result', { tool: tc.name, content: errMsg })
-          toolResults.push({ type: 'tool_result', tool_use_id: tc.id, content: errMsg })
-        }
-        continue
-      }
+    // 将 tool results 追加到历史（Anthropic 格式：user 消息携带 tool_result）
+    history.push({ role: 'user', content: toolResults })
+  }
+}
 
-      // ── subAgent tool ─────────────────────────────────────────────────────
-      const entry = subAgentTools.find(e => e.tool.name === tc.name)
-      if (!entry) {
-        toolResults.push({ type: 'tool_result', tool_use_id: tc.id, content: 'Tool not found' })
-        continue
-      }
+// ─── Tool execution ─────────────────────────────────────────────────────────
 
-      onEvent('tool_call', { tool: tc.name, agentName: entry.tool.description.split(':')[0], input: tc.input.message })
+/**
+ * 以最多 limit 个并发执行 fn，结果顺序与 items 一致
+ */
+async function mapWithConcurrency(items, limit, fn) {
+  const results = new Array(items.length)
+  let next = 0
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++
+      results[index] = await fn(items[index])
+    }
+  }
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker))
+  return results
+}
+
+// 按 key 串行执行 fn（前一个失败不影响后一个）
+function withLock(locks, key, fn) {
+  const run = (locks.get(key) || Promise.resolve()).then(fn)
+  locks.set(key, run.catch(() => {}))
+  return run
+}
+
+/**
+ * 执行单个 tool call，返回 tool_result 块；执行失败时把错误信息作为结果交给 LLM（中止除外）
+ * 需要在界面展示的工具发出 tool_call / tool_result 事件，以 toolUseId 关联，tool_result 带耗时 durationMs；
+ * v2 SubAgent 执行期间还会发出 tool_progress 事件 { toolUseId, kind: 'progress' | 'text', content }
+ */
+async function executeToolCall(tc, ctx) {
+  const { enabledSkills, knowledge, subAgentTools, mcpTools, subAgentSessions, files, onEvent, signal } = ctx
+  const toolResult = content => ({ type: 'tool_result', tool_use_id: tc.id, content })
+  signal?.throwIfAborted()
+
+  // ── read_skill: progressive disclosure step 2 ──────────────────────────
+  if (tc.name === 'read_skill') {
+    const skillName = tc.input?.skill_name
+    const skill = enabledSkills.find(s => s.name === skillName)
+    return toolResult(skill
+      ? skill.content
+      : `Skill "${skillName}" not found. Available: ${enabledSkills.map(s => s.name).join(', ')}`)
+  }
+
+  const track = async (agentName, input, errorPrefix, run) => {
+    onEvent('tool_call', { toolUseId: tc.id, tool: tc.name, agentName, input })
+    const startedAt = Date.now()
+    let content
+    try {
+      content = await run()
+    } catch (err) {
+      if (signal?.aborted) throw err
+      content = `${errorPrefix}: ${err.message}`
+    }
+    onEvent('tool_result', { toolUseId: tc.id, tool: tc.name, content, durationMs: Date.now() - startedAt })
+    return toolResult(content)
+  }
+
+  // ── search_knowledge: 本地知识库检索 ──────────────────────────────────
+  if (tc.name === 'search_knowledge') {
+    const { query, collection, top_k } = tc.input ?? {}
+    if (!query) return toolResult('query is required')
+    const targets = collection ? knowledge.filter(c => c.name === collection) : knowledge
+    if (targets.length === 0) {
+      return toolResult(`Collection "${collection}" not found. Available: ${knowledge.map(c => c.name).join(', ')}`)
+    }
+    const topK = Math.min(Math.max(1, Number(top_k) || DEFAULT_TOP_K), MAX_TOP_K)
+    return track('知识库检索', query, '检索失败',
+      async () => formatKnowledgeResults(await searchKnowledge(targets, query, { topK, signal })))
+  }
 
+  // ── run_skill_script: Docker 脚本执行 ──────────────────────────────────
+  if (tc.name === 'run_skill_script') {
+    const { skill_name, script_path, args } = tc.input ?? {}
+    const skill = enabledSkills.find(s => s.name === skill_name)
+    if (!skill) {
+      return toolResult(`Skill "${skill_name}" not found. Available: ${enabledSkills.map(s => s.name).join(', ')}`)
+    }
+    if (!isDockerAvailable()) {
+      return toolResult('Docker is not available on this system. Cannot execute skill scripts.')
+    }
+    return track(`执行脚本: ${skill_name}`, `${script_path} ${args ?? ''}`.trim(), '脚本执行失败',
+      async () => formatScriptResult(await runScript(skill, script_path, args ?? '', signal, files)))
+  }
+
+  // ── MCP tool: 参数按 server 提供的 inputSchema 原样转发 ────────────────
+  const mcpEntry = mcpTools.find(e => e.tool.name === tc.name)
+  if (mcpEntry) {
+    return track(`${mcpEntry.server.name} · ${mcpEntry.mcpToolName}`, JSON.stringify(tc.input ?? {}), '调用失败',
+      () => callMcpTool(mcpEntry, tc.input, signal))
+  }
+
+  // ── subAgent tool ───────────────────────────────────────────────────────
+  const entry = subAgentTools.find(e => e.tool.name === tc.name)
+  if (!entry) return toolResult('Tool not found')
+
+  // 结构化能力：参数按 input_schema 提取，无状态调用，不占用 session 锁
+  if (entry.capability) {
+    return track(`${entry.agentName} · ${entry.capability}`, JSON.stringify(tc.input ?? {}), '调用失败',
+      () => invokeSubAgent(entry.subAgentUrl, entry.subAgentAuth, entry.capability, tc.input, signal))
+  }
+
+  return track(entry.agentName, tc.input?.message, '调用失败', () =>
+    withLock(ctx.subAgentLocks, entry.subAgentId, async () => {
       const sessionId = subAgentSessions[entry.subAgentId]
-      try {
-        const result = await callSubAgent(entry.subAgentUrl, entry.subAgentAuth, tc.input.message, sessionId)
-        // 保存 session_id 供后续对话复用
-        subAgentSessions[entry.subAgentId] = result.session_id
-        onEvent('tool_result', { tool: tc.name, content: result.message })
-        toolResults.push({ type: 'tool_result', tool_use_id: tc.id, content: result.message })
-      } catch (err) {
-        const errMsg = `调用失败: ${err.message}`
-        onEvent('tool_result', { tool: tc.name, content: errMsg })
-        toolResults.push({ type: 'tool_result', tool_use_id: tc.id, content: errMsg })
+      // 支持 v2 协议的 SubAgent 流式返回进度与部分文本，转发为 tool_progress 事件
+      const onProgress = entry.protocolVersion >= 2
+        ? (kind, content) => onEvent('tool_progress', { toolUseId: tc.id, tool: tc.name, kind, content })
+        : undefined
+      const result = await callSubAgent(
+        entry.subAgentUrl, entry.subAgentAuth, tc.input?.message, sessionId, signal, onProgress,
+      )
+      // 保存 session_id 供后续对话复用
+      subAgentSessions[entry.subAgentId] = result.session_id
+      return result.message
+    }))
+}
+
+// ─── Model failover ─────────────────────────────────────────────────────────
+
+/**
+ * 可切换备用模型的错误：5xx、429 或连接失败（DNS、拒绝连接、连接重置等）
+ * 4xx（鉴权失败、参数错误等）换模型也无济于事，直接抛出
+ */
+function isFailoverError(err) {
+  if (err.status) return err.status >= 500 || err.status === 429
+  return err.name === 'FetchError' && err.type === 'system'
+}
+
+/**
+ * 按模型链调用 LLM：当前模型在输出任何内容之前失败时，依次改用下一个模型重试
+ * 已经流式输出过内容的失败不再重试，避免前端收到两份拼接的回答
+ * 回答成功的模型与上次不同时（包括首次）发出 model 事件：{ modelId, modelName, fallback, reason? }
+ * 每次调用成功后发出 usage 事件：{ modelId, modelName, inputTokens, outputTokens, cost }（接口未返回用量时不发）
+ */
+async function callWithFallback(state, messages, tools, onEvent, systemPrompt, signal) {
+  let reason
+  for (;;) {
+    const model = state.chain[state.active]
+    let streamed = false
+    try {
+      const response = await callLLM(model, messages, tools, (type, data) => {
+        streamed = true
+        onEvent(type, data)
+      }, systemPrompt, signal)
+      if (state.announced !== model) {
+        state.announced = model
+        onEvent('model', { modelId: model.id, modelName: model.name, fallback: state.active > 0, reason })
       }
+      emitUsage(model, response.usage, onEvent)
+      return response
+    } catch (err) {
+      const next = state.chain[state.active + 1]
+      if (signal?.aborted || streamed || !next || !isFailoverError(err)) throw err
+      console.warn(`[llm] 模型 ${model.name} 调用失败，切换到备用模型 ${next.name}: ${err.message}`)
+      reason = `${model.name}: ${err.message.slice(0, 200)}`
+      state.active++
     }
-
-    // 将 tool results 追加到历史（Anthropic 格式：user 消息携带 tool_result）
-    history.push({ role: 'user', content: toolResults })
   }
 }
 
+// 接口返回了用量时发出 usage 事件
+function emitUsage(model, usage, onEvent) {
+  if (!usage) return
+  onEvent('usage', { modelId: model.id, modelName: model.name, ...usage, cost: priceUsage(model, usage) })
+}
+
 /**
  * 调用 LLM（Anthropic 或 OpenAI-compatible），流式输出文本，返回完整 response
  */
-async function callLLM(model, messages, tools, onEvent, systemPrompt) {
+async function callLLM(model, messages, tools, onEvent, systemPrompt, signal) {
+  // 图片只发给支持图片的模型，其他模型看到的是文字占位（如较早消息中的图片）
+  if (!model.vision) messages = messages.map(withoutImages)
   if (model.provider === 'anthropic') {
-    return callAnthropic(model, messages, tools, onEvent, systemPrompt)
+    return callAnthropic(model, messages, tools, onEvent, systemPrompt, signal)
   } else {
-    return callOpenAICompatible(model, messages, tools, onEvent, systemPrompt)
+    return callOpenAICompatible(model, messages, tools, onEvent, systemPrompt, signal)
   }
 }
 
+function isPlainUserMessage(msg) {
+  return msg.role === 'user' && !(Array.isArray(msg.content) && msg.content.some(b => b.type === 'tool_result'))
+}
+
+function hasImages(msg) {
+  return Array.isArray(msg?.content) && msg.content.some(b => b.type === 'image')
+}
+
+function withoutImages(msg) {
+  if (!hasImages(msg)) return msg
+  return { ...msg, content: msg.content.map(b => b.type === 'image' ? { type: 'text', text: '[图片]' } : b) }
+}
+
 // ─── Anthropic ──────────────────────────────────────────────────────────────
 
-async function callAnthropic(model, messages, tools, onEvent, systemPrompt) {
+async function callAnthropic(model, messages, tools, onEvent, systemPrompt, signal) {
   const body = {
     model: model.model || 'claude-sonnet-4-6',
-    max_tokens: 4096,
+    max_tokens: getMaxOutputTokens(model),
     stream: true,
     messages: messages.map(m => ({
       role: m.role,
@@ -223,6 +479,10 @@ async function callAnthropic(model, messages, tools, onEvent, systemPrompt) {
   if (systemPrompt) {
     body.system = systemPrompt
   }
+  // 扩展思考：max_tokens 已包含思考预算
+  if (model.thinking) {
+    body.thinking = { type: 'enabled', budget_tokens: getThinkingBudget(model) }
+  }
   if (tools.length > 0) {
     body.tools = tools.map(t => ({
       name: t.name,
@@ -239,11 +499,13 @@ async function callAnthropic(model, messages, tools, onEvent, systemPrompt) {
       'anthropic-version': '2023-06-01',
     },
     body: JSON.stringify(body),
+    signal,
   })
 
   if (!res.ok) {
-    const err = await res.text()
-    throw new Error(`Anthropic error ${res.status}: ${err}`)
+    const err = new Error(`Anthropic error ${res.status}: ${await res.text()}`)
+    err.status = res.status
+    throw err
   }
 
   return parseAnthropicStream(res.body, onEvent)
@@ -253,20 +515,35 @@ async function callAnthropic(model, messages, tools, onEvent, systemPrompt) {
  * 从 node-fetch 的 body stream 中逐行读取 SSE 数据行（正确处理跨 chunk 的情况）
  */
 async function* iterLines(stream) {
+  // 流式解码：多字节字符可能被拆在两个 chunk 中
+  const decoder = new TextDecoder()
   let buf = ''
   for await (const chunk of stream) {
-    buf += Buffer.isBuffer(chunk) ? chunk.toString() : chunk
+    buf += typeof chunk === 'string' ? chunk : decoder.decode(chunk, { stream: true })
     const lines = buf.split('\n')
     buf = lines.pop() ?? ''
     for (const line of lines) yield line
   }
+  buf += decoder.decode()
   if (buf) yield buf
 }
 
+// 未设置 thinkingParams 的旧配置：仅 DashScope（通义千问）接口发送，保持升级前的行为
+function usesThinkingParams(model) {
+  return model.thinkingParams ?? /dashscope\.aliyuncs\.com/.test(model.baseURL || '')
+}
+
+/**
+ * 解析 Anthropic 流：文本 → text 事件，思考过程 → thinking 事件
+ * thinking / redacted_thinking 块（含 signature）原样保留在 content 中，
+ * 工具调用轮次中随 assistant 消息一起回传，这是 Anthropic 扩展思考的要求
+ */
 async function parseAnthropicStream(stream, onEvent) {
   const content = []
   let currentText = ''
   let currentToolUse = null
+  let currentThinking = null
+  let usage = null
 
   for await (const line of iterLines(stream)) {
     if (!line.startsWith('data: ')) continue
@@ -276,11 +553,30 @@ async function parseAnthropicStream(stream, onEvent) {
     let event
     try { event = JSON.parse(data) } catch { continue }
 
-    if (event.type === 'content_block_start') {
-      if (event.content_block.type === 'tool_use') {
-        currentToolUse = { type: 'tool_use', id: event.content_block.id, name: event.content_block.name, inputRaw: '' }
-      } else if (event.content_block.type === 'text') {
+    if (event.type === 'message_start') {
+      // 输入 token 在 message_start 中给出（含 prompt caching 读写的部分）
+      const u = event.message?.usage
+      if (u) {
+        usage = {
+          inputTokens: (u.input_tokens || 0) + (u.cache_creation_input_tokens || 0) + (u.cache_read_input_tokens || 0),
+          outputTokens: u.output_tokens || 0,
+        }
+      }
+    } else if (event.type === 'message_delta') {
+      // 输出 token 为累计值，以最后一次为准
+      if (event.usage?.output_tokens !== undefined) {
+        usage = { inputTokens: usage?.inputTokens || 0, outputTokens: event.usage.output_tokens }
+      }
+    } else if (event.type === 'content_block_start') {
+      const block = event.content_block
+      if (block.type === 'tool_use') {
+        currentToolUse = { type: 'tool_use', id: block.id, name: block.name, inputRaw: '' }
+      } else if (block.type === 'text') {
         currentText = ''
+      } else if (block.type === 'thinking') {
+        currentThinking = { type: 'thinking', thinking: '', signature: '' }
+      } else if (block.type === 'redacted_thinking') {
+        currentThinking = { type: 'redacted_thinking', data: block.data }
       }
     } else if (event.type === 'content_block_delta') {
       const delta = event.delta
@@ -289,9 +585,17 @@ async function parseAnthropicStream(stream, onEvent) {
         onEvent('text', { content: delta.text })
       } else if (delta.type === 'input_json_delta' && currentToolUse) {
         currentToolUse.inputRaw += delta.partial_json
+      } else if (delta.type === 'thinking_delta' && currentThinking) {
+        currentThinking.thinking += delta.thinking
+        onEvent('thinking', { content: delta.thinking })
+      } else if (delta.type === 'signature_delta' && currentThinking) {
+        currentThinking.signature += delta.signature
       }
     } else if (event.type === 'content_block_stop') {
-      if (currentToolUse) {
+      if (currentThinking) {
+        content.push(currentThinking)
+        currentThinking = null
+      } else if (currentToolUse) {
         try { currentToolUse.input = JSON.parse(currentToolUse.inputRaw) } catch { currentToolUse.input = {} }
         delete currentToolUse.inputRaw
         content.push(currentToolUse)
@@ -303,12 +607,12 @@ async function parseAnthropicStream(stream, onEvent) {
     }
   }
 
-  return { content }
+  return { content, usage }
 }
 
 // ─── OpenAI-compatible ───────────────────────────────────────────────────────
 
-async function callOpenAICompatible(model, messages, tools, onEvent, systemPrompt) {
+async function callOpenAICompatible(model, messages, tools, onEvent, systemPrompt, signal) {
   const baseURL = model.baseURL || 'https://api.openai.com/v1'
 
   // 转换消息格式（tool results → role: tool）
@@ -317,10 +621,19 @@ async function callOpenAICompatible(model, messages, tools, onEvent, systemPromp
   const body = {
     model: model.model || 'gpt-4',
     stream: true,
+    // 在最后一个 chunk 中返回 token 用量
+    stream_options: { include_usage: true },
     messages: systemPrompt
       ? [{ role: 'system', content: systemPrompt }, ...oaiMessages]
       : oaiMessages,
   }
+  // 可控思考的 OpenAI 兼容接口（如通义千问）使用 enable_thinking / thinking_budget 参数，属于厂商扩展，
+  // 严格校验参数的接口（如 OpenAI）会返回 400，因此仅在模型配置开启 thinkingParams 时发送；
+  // deepseek-reasoner 等推理模型始终输出思考过程，无需开启
+  if (model.thinking && usesThinkingParams(model)) {
+    body.enable_thinking = true
+    body.thinking_budget = getThinkingBudget(model)
+  }
   if (tools.length > 0) {
     body.tools = tools.map(t => ({
       type: 'function',
@@ -335,11 +648,13 @@ async function callOpenAICompatible(model, messages, tools, onEvent, systemPromp
       'Authorization': `Bearer ${model.apiKey}`,
     },
     body: JSON.stringify(body),
+    signal,
   })
 
   if (!res.ok) {
-    const err = await res.text()
-    throw new Error(`LLM error ${res.status}: ${err}`)
+    const err = new Error(`LLM error ${res.status}: ${await res.text()}`)
+    err.status = res.status
+    throw err
   }
 
   return parseOAIStream(res.body, onEvent)
@@ -378,6 +693,17 @@ function convertMessagesToOAI(messages) {
       }
     }
 
+    // 带图片的 user 消息：图片转换为 image_url（data URL）
+    if (msg.role === 'user' && hasImages(msg)) {
+      result.push({
+        role: 'user',
+        content: msg.content.map(b => b.type === 'image'
+          ? { type: 'image_url', image_url: { url: `data:${b.source.media_type};base64,${b.source.data}` } }
+          : { type: 'text', text: b.text }),
+      })
+      continue
+    }
+
     // 普通文本
     const text = msg.content.filter(b => b.type === 'text').map(b => b.text).join('')
     result.push({ role: msg.role, content: text })
@@ -390,6 +716,7 @@ async function parseOAIStream(stream, onEvent) {
   let textBuffer = ''
   const toolCallBuffers = {} // index -> { id, name, argsRaw }
   let finished = false
+  let usage = null
 
   for await (const line of iterLines(stream)) {
     if (!line.startsWith('data: ')) continue
@@ -400,8 +727,17 @@ async function parseOAIStream(stream, onEvent) {
     let event
     try { event = JSON.parse(data) } catch { continue }
 
+    // include_usage 时最后一个 chunk 的 choices 为空，只携带 usage
+    if (event.usage) {
+      usage = { inputTokens: event.usage.prompt_tokens || 0, outputTokens: event.usage.completion_tokens || 0 }
+    }
+
     const delta = event.choices?.[0]?.delta
     if (delta) {
+      // 推理模型的思考过程（DeepSeek / Qwen 为 reasoning_content，部分网关为 reasoning），不回传给模型
+      const reasoning = delta.reasoning_content || delta.reasoning
+      if (reasoning) onEvent('thinking', { content: reasoning })
+
       if (delta.content) {
         textBuffer += delta.content
         onEvent('text', { content: delta.content })
@@ -447,5 +783,5 @@ async function parseOAIStream(stream, onEvent) {
     }
   }
 
-  return { content }
+  return { content, usage }
 }
@@ -0,0 +1,475 @@
+import { spawn } from 'node:child_process'
+import { createHash } from 'node:crypto'
+import fetch from 'node-fetch'
+import { callDepthHeader } from './subagent.js'
+import { iterSseData } from './sse.js'
+
+const PROTOCOL_VERSION = '2025-06-18'
+const CLIENT_INFO = { name: 'willknow-client', version: '1.0.0' }
+const CONNECT_TIMEOUT = 15_000   // 启动进程 + initialize 握手
+const CALL_TIMEOUT    = 60_000   // 与 SubAgent 调用一致
+const RETRY_MIN       = 30_000   // 连接失败后的重试间隔，连续失败时翻倍
+const RETRY_MAX       = 10 * 60_000
+
+// Anthropic / OpenAI 对 tool 名称的限制：^[a-zA-Z0-9_-]{1,64}$
+const TOOL_NAME_MAX = 64
+
+/**
+ * MCP（Model Context Protocol）客户端：连接配置中的 MCP server，
+ * 将其 tools/list 返回的工具（连同 inputSchema）注册为 LLM tool，tools/call 转发给对应 server
+ *
+ * 支持两种传输方式：
+ *   stdio — 启动本地命令，通过 stdin / stdout 收发按行分隔的 JSON-RPC 消息
+ *   http  — Streamable HTTP：POST JSON-RPC 消息，响应为 JSON 或 SSE 流，会话 ID 通过 Mcp-Session-Id 头传递
+ *
+ * 连接按 server ID 缓存，多次对话复用同一进程 / 会话；配置变更或进程退出后下次使用时重新连接
+ * 工具列表与连接失败同样按 server 缓存：无法连通的 server 在退避期内直接跳过，不再拖慢每次对话
+ */
+
+// ─── 传输层 ──────────────────────────────────────────────────────────────────
+
+class StdioTransport {
+  constructor(server, onMessage, onClose) {
+    this.server = server
+    this.onMessage = onMessage
+    this.onClose = onClose
+  }
+
+  async start() {
+    const { command, args = [], env = {}, cwd } = this.server
+    if (!command) throw new Error('command is required')
+    this.child = spawn(command, args, {
+      cwd: cwd || undefined,
+      env: { ...process.env, ...env },
+      stdio: ['pipe', 'pipe', 'pipe'],
+    })
+    this.child.on('error', err => this.onClose(err))
+    this.child.on('exit', code => this.onClose(new Error(`MCP server 进程已退出 (code ${code})`)))
+    this.child.stdin.on('error', () => {})
+
+    // setEncoding 按流解码，跨 chunk 的多字节字符不会被截断
+    this.child.stdout.setEncoding('utf8')
+    this.child.stderr.setEncoding('utf8')
+    let buf = ''
+    this.child.stdout.on('data', chunk => {
+      buf += chunk
+      const lines = buf.split('\n')
+      buf = lines.pop() ?? ''
+      for (const line of lines) {
+        if (!line.trim()) continue
+        try {
+          this.onMessage(JSON.parse(line))
+        } catch {
+          console.warn(`[MCP] ${this.server.name}: 无法解析的输出 ${line.slice(0, 200)}`)
+        }
+      }
+    })
+    // server 的日志写在 stderr
+    this.child.stderr.on('data', chunk => {
+      for (const line of chunk.split('\n')) {
+        if (line.trim()) console.log(`[MCP] ${this.server.name}: ${line}`)
+      }
+    })
+  }
+
+  async send(message) {
+    if (!this.child || this.child.exitCode !== null) throw new Error('MCP server 进程未运行')
+    this.child.stdin.write(JSON.stringify(message) + '\n')
+  }
+
+  async close() {
+    this.child?.kill()
+  }
+}
+
+class HttpTransport {
+  constructor(server, onMessage, onClose) {
+    this.server = server
+    this.onMessage = onMessage
+    this.onClose = onClose
+    this.sessionId = null
+    this.protocolVersion = null
+  }
+
+  async start() {
+    if (!this.server.url) throw new Error('url is required')
+  }
+
+  headers() {
+    const headers = {
+      'Content-Type': 'application/json', 'Accept': 'application/json, text/event-stream', ...callDepthHeader(),
+    }
+    const { auth } = this.server
+    if (auth?.type === 'bearer' && auth?.token) headers['Authorization'] = `Bearer ${auth.token}`
+    if (this.sessionId) headers['Mcp-Session-Id'] = this.sessionId
+    if (this.protocolVersion) headers['MCP-Protocol-Version'] = this.protocolVersion
+    return headers
+  }
+
+  /**
+   * 发送一条消息；请求的响应（JSON 或 SSE 流中的消息）交给 onMessage 处理
+   */
+  async send(message, signal) {
+    const res = await fetch(this.server.url, {
+      method: 'POST',
+      headers: this.headers(),
+      body: JSON.stringify(message),
+      signal,
+    })
+    const sessionId = res.headers.get('mcp-session-id')
+    if (sessionId) this.sessionId = sessionId
+    // 会话已失效（如 server 重启），关闭连接，下次使用时重新握手
+    if (res.status === 404 && this.sessionId) {
+      const err = new Error('MCP 会话已失效')
+      this.onClose(err)
+      throw err
+    }
+    if (!res.ok) {
+      const text = await res.text()
+      throw new Error(`MCP server error ${res.status}: ${text.slice(0, 200)}`)
+    }
+    // 通知和响应没有返回内容（202 Accepted）
+    if (res.status === 202 || message.id === undefined || !message.method) return
+
+    if ((res.headers.get('content-type') || '').includes('text/event-stream')) {
+      // 收到本请求的响应后停止读取（server 也可能在同一个流里先发送通知或请求）
+      for await (const data of iterSseData(res.body)) {
+        let msg
+        try { msg = JSON.parse(data) } catch { continue }
+        this.onMessage(msg)
+        if (msg.id === message.id && !msg.method) return
+      }
+    } else {
+      const text = await res.text()
+      if (text) [].concat(JSON.parse(text)).forEach(msg => this.onMessage(msg))
+    }
+  }
+
+  async close() {
+    if (!this.sessionId) return
+    // 通知 server 结束会话，失败无妨
+    await fetch(this.server.url, { method: 'DELETE', headers: this.headers(), signal: AbortSignal.timeout(5000) })
+      .catch(() => {})
+  }
+}
+
+// ─── 客户端 ──────────────────────────────────────────────────────────────────
+
+class McpClient {
+  constructor(server) {
+    this.server = server
+    this.key = connectionKey(server)
+    this.pending = new Map() // request id -> finish(err, result)
+    this.nextId = 1
+    this.tools = null        // tools/list 缓存，收到 tools/list_changed 通知后清空
+    this.closed = false
+    this.onClose = null
+  }
+
+  async connect() {
+    const onMessage = msg => this.handleMessage(msg)
+    const onClose = err => this.handleClose(err)
+    this.transport = this.server.transport === 'http'
+      ? new HttpTransport(this.server, onMessage, onClose)
+      : new StdioTransport(this.server, onMessage, onClose)
+    await this.transport.start()
+
+    const result = await this.request('initialize', {
+      protocolVersion: PROTOCOL_VERSION,
+      capabilities: {},
+      clientInfo: CLIENT_INFO,
+    }, { timeout: CONNECT_TIMEOUT })
+    this.serverInfo = result.serverInfo || {}
+    this.transport.protocolVersion = result.protocolVersion
+    await this.notify('notifications/initialized')
+  }
+
+  /**
+   * 发送 JSON-RPC 请求；超时或 signal 中止时向 server 发送 notifications/cancelled
+   */
+  request(method, params, { signal, timeout = CALL_TIMEOUT } = {}) {
+    if (this.closed) return Promise.reject(new Error('MCP 连接已关闭'))
+    if (signal?.aborted) return Promise.reject(signal.reason)
+    const id = this.nextId++
+    const controller = new AbortController()
+
+    return new Promise((resolve, reject) => {
+      const finish = (err, result) => {
+        clearTimeout(timer)
+        signal?.removeEventListener('abort', onAbort)
+        if (!this.pending.delete(id)) return
+        if (err) {
+          controller.abort()
+          reject(err)
+        } else {
+          resolve(result)
+        }
+      }
+      const cancel = reason => {
+        if (this.pending.has(id)) this.notify('notifications/cancelled', { requestId: id, reason: reason.message }).catch(() => {})
+        finish(reason)
+      }
+      const timer = setTimeout(() => cancel(new Error(`MCP 请求超时: ${method}`)), timeout)
+      const onAbort = () => cancel(signal.reason)
+      signal?.addEventListener('abort', onAbort, { once: true })
+      this.pending.set(id, finish)
+
+      this.transport.send({ jsonrpc: '2.0', id, method, ...(params && { params }) }, controller.signal)
+        .catch(err => finish(err))
+    })
+  }
+
+  notify(method, params) {
+    return this.transport.send({ jsonrpc: '2.0', method, ...(params && { params }) })
+  }
+
+  handleMessage(msg) {
+    // 响应
+    if (msg.id !== undefined && !msg.method) {
+      const finish = this.pending.get(msg.id)
+      if (!finish) return
+      if (msg.error) finish(new Error(`${msg.error.message} (${msg.error.code})`))
+      else finish(null, msg.result)
+      return
+    }
+    // server 发起的请求：只响应 ping，其余（sampling、roots 等）不支持
+    if (msg.id !== undefined) {
+      const reply = msg.method === 'ping'
+        ? { jsonrpc: '2.0', id: msg.id, result: {} }
+        : { jsonrpc: '2.0', id: msg.id, error: { code: -32601, message: `Method not supported: ${msg.method}` } }
+      this.transport.send(reply).catch(() => {})
+      return
+    }
+    // 通知
+    if (msg.method === 'notifications/tools/list_changed') this.tools = null
+  }
+
+  handleClose(err) {
+    if (this.closed) return
+    this.closed = true
+    for (const finish of [...this.pending.values()]) finish(err)
+    this.onClose?.()
+  }
+
+  async listTools() {
+    if (this.tools) return this.tools
+    const tools = []
+    let cursor
+    do {
+      const result = await this.request('tools/list', cursor ? { cursor } : undefined)
+      tools.push(...(result.tools || []))
+      cursor = result.nextCursor
+    } while (cursor)
+    this.tools = tools
+    return tools
+  }
+
+  callTool(name, args, signal) {
+    return this.request('tools/call', { name, arguments: args ?? {} }, { signal })
+  }
+
+  async close() {
+    this.handleClose(new Error('MCP 连接已关闭'))
+    await this.transport?.close()
+  }
+}
+
+// 影响连接的配置字段，变化后需要重新连接
+function connectionKey(server) {
+  const { transport, command, args, env, cwd, url, auth } = server
+  return JSON.stringify({ transport, command, args, env, cwd, url, auth })
+}
+
+// ─── 连接缓存 ────────────────────────────────────────────────────────────────
+
+const clients = new Map() // serverId -> { key, client, ready: Promise<McpClient> }
+
+function getClient(server) {
+  const cached = clients.get(server.id)
+  if (cached && cached.key === connectionKey(server) && !cached.client.closed) return cached.ready
+  if (cached) cached.client.close().catch(() => {})
+
+  const client = new McpClient(server)
+  const entry = { key: client.key, client }
+  client.onClose = () => {
+    if (clients.get(server.id) === entry) clients.delete(server.id)
+  }
+  entry.ready = client.connect().then(() => client, err => {
+    client.close().catch(() => {})
+    throw err
+  })
+  clients.set(server.id, entry)
+  return entry.ready
+}
+
+/**
+ * 关闭已删除、已禁用或连接配置变更的 server 的连接（保存设置时调用）
+ */
+export function syncMcpClients(servers) {
+  for (const [id, { key, client }] of clients) {
+    const server = servers.find(s => s.id === id)
+    if (!server?.enabled || connectionKey(server) !== key) {
+      clients.delete(id)
+      client.close().catch(() => {})
+    }
+  }
+  for (const [id, { key }] of toolStates) {
+    const server = servers.find(s => s.id === id)
+    if (!server?.enabled || connectionKey(server) !== key) toolStates.delete(id)
+  }
+}
+
+// ─── 工具列表缓存 ────────────────────────────────────────────────────────────
+
+// serverId -> { key, tools, failures, retryAt, error, pending }；tools 为最近一次成功的 tools/list 结果
+const toolStates = new Map()
+
+function getToolState(server) {
+  let state = toolStates.get(server.id)
+  if (!state || state.key !== connectionKey(server)) {
+    state = { key: connectionKey(server), tools: null, failures: 0, retryAt: 0, error: null, pending: null }
+    toolStates.set(server.id, state)
+  }
+  return state
+}
+
+/**
+ * 连接 server 并刷新工具列表；失败时清空工具并按指数退避设置下次重试时间
+ * 同一 server 同时只进行一次刷新，返回的 Promise 不会 reject
+ */
+function refreshTools(server) {
+  const state = getToolState(server)
+  state.pending ??= (async () => {
+    try {
+      const client = await getClient(server)
+      state.tools = await client.listTools()
+      if (state.failures > 0) console.log(`[MCP] ${server.name} 已恢复`)
+      state.failures = 0
+      state.retryAt = 0
+      state.error = null
+    } catch (err) {
+      state.tools = null
+      state.failures++
+      state.retryAt = Date.now() + Math.min(RETRY_MIN * 2 ** (state.failures - 1), RETRY_MAX)
+      state.error = err.message
+      console.warn(`[MCP] 无法连通 ${server.name}: ${err.message}（${Math.round((state.retryAt - Date.now()) / 1000)} 秒后重试）`)
+    } finally {
+      state.pending = null
+    }
+  })()
+  return state.pending
+}
+
+// 连接仍在且工具列表未失效（未收到 tools/list_changed）时无需刷新
+function isToolListCurrent(server) {
+  const cached = clients.get(server.id)
+  return !!cached && cached.key === connectionKey(server) && !cached.client.closed && !!cached.client.tools
+}
+
+// 退出时结束 stdio server 子进程
+process.on('exit', () => {
+  for (const { client } of clients.values()) client.transport?.child?.kill()
+})
+
+// ─── 对外接口 ────────────────────────────────────────────────────────────────
+
+/**
+ * 探测 MCP server：建立临时连接（不影响缓存的连接），返回 server 信息和工具列表
+ */
+export async function probeMcpServer(server) {
+  const client = new McpClient({ ...server, name: server.name || 'probe' })
+  try {
+    await client.connect()
+    const tools = await client.listTools()
+    return {
+      serverInfo: client.serverInfo,
+      tools: tools.map(t => ({ name: t.name, description: t.description || '' })),
+    }
+  } finally {
+    await client.close()
+  }
+}
+
+/**
+ * 将 MCP 工具转换为 LLM tool 定义：名称加上 server ID 前缀避免冲突，input_schema 使用 server 提供的 inputSchema
+ * usedNames 为已占用的名称：替换非法字符、截断到 64 字符后可能重名，重名时末尾改为由 server ID 和工具名生成的短哈希
+ */
+export function buildMcpTool(server, tool, usedNames = new Set()) {
+  const base = `mcp_${server.id.slice(0, 8)}_${tool.name}`.replace(/[^a-zA-Z0-9_-]/g, '_').slice(0, TOOL_NAME_MAX)
+  let name = base
+  for (let i = 0; usedNames.has(name); i++) {
+    const suffix = `_${createHash('sha256').update(`${server.id}\n${tool.name}\n${i}`).digest('hex').slice(0, 8)}`
+    name = base.slice(0, TOOL_NAME_MAX - suffix.length) + suffix
+  }
+  usedNames.add(name)
+  return {
+    server,
+    mcpToolName: tool.name,
+    tool: {
+      name,
+      description: `${server.name}: ${tool.description || tool.name}`,
+      input_schema: { type: 'object', properties: {}, ...tool.inputSchema },
+    },
+  }
+}
+
+/**
+ * 在后台连接尚未加载工具列表的已启用 server（启动和保存设置时调用），首次对话无需等待连接
+ */
+export function warmMcpTools(servers) {
+  for (const server of servers.filter(s => s.enabled)) {
+    const state = getToolState(server)
+    if (!state.tools && state.failures === 0) refreshTools(server)
+  }
+}
+
+/**
+ * 加载所有启用的 MCP server 的工具，返回 [{ server, mcpToolName, tool }]
+ *
+ * 只有首次连接时等待；之后使用缓存的工具列表，连接断开或列表失效时在后台刷新。
+ * 连接失败的 server 直接跳过：退避期内不重试，退避期过后在后台重试，恢复后重新加入
+ */
+export async function loadMcpTools(servers) {
+  const results = await Promise.all(servers.filter(s => s.enabled).map(async server => {
+    const state = getToolState(server)
+    if (state.tools) {
+      if (!isToolListCurrent(server)) refreshTools(server)
+    } else if (state.failures === 0) {
+      await refreshTools(server)
+    } else if (Date.now() >= state.retryAt) {
+      refreshTools(server)
+    }
+    return { server, tools: state.tools || [] }
+  }))
+  const usedNames = new Set()
+  return results.flatMap(({ server, tools }) => tools.map(tool => buildMcpTool(server, tool, usedNames)))
+}
+
+/**
+ * 调用 MCP 工具，返回交给 LLM 的文本；工具返回 isError 时抛出错误
+ */
+export async function callMcpTool(entry, input, signal) {
+  const client = await getClient(entry.server)
+  const result = await client.callTool(entry.mcpToolName, input, signal)
+  const text = formatMcpContent(result)
+  if (result.isError) throw new Error(text)
+  return text
+}
+
+/**
+ * tools/call 结果 → 文本：text 原样保留，内嵌资源取其文本，图片 / 音频 / 资源链接以占位说明代替
+ */
+function formatMcpContent(result) {
+  const parts = (result.content || []).map(block => {
+    switch (block.type) {
+      case 'text':          return block.text
+      case 'image':         return `[image: ${block.mimeType}]`
+      case 'audio':         return `[audio: ${block.mimeType}]`
+      case 'resource':      return block.resource?.text ?? `[resource: ${block.resource?.uri}]`
+      case 'resource_link': return `[resource: ${block.uri}]`
+      default:              return `[${block.type}]`
+    }
+  })
+  if (parts.length === 0 && result.structuredContent) return JSON.stringify(result.structuredContent)
+  return parts.join('\n') || '(no output)'
+}
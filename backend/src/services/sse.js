@@ -0,0 +1,24 @@
+/**
+ * 从 node-fetch 的 body stream 中逐个读取 SSE 事件的 data（多行 data 以换行拼接，跨 chunk 的事件正确拼接）
+ * 用同一个 TextDecoder 流式解码，被 chunk 截断的多字节 UTF-8 字符（如中文）不会变成乱码
+ */
+export async function* iterSseData(stream) {
+  const decoder = new TextDecoder()
+  let buf = ''
+  let data = []
+  for await (const chunk of stream) {
+    buf += typeof chunk === 'string' ? chunk : decoder.decode(chunk, { stream: true })
+    const lines = buf.split('\n')
+    buf = lines.pop() ?? ''
+    for (const raw of lines) {
+      const line = raw.replace(/\r$/, '')
+      if (line === '') {
+        if (data.length > 0) yield data.join('\n')
+        data = []
+      } else if (line.startsWith('data:')) {
+        data.push(line.slice(5).replace(/^ /, ''))
+      }
+    }
+  }
+  if (data.length > 0) yield data.join('\n')
+}
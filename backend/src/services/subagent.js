@@ -1,56 +1,140 @@
 import fetch from 'node-fetch'
+import { AsyncLocalStorage } from 'node:async_hooks'
+import { iterSseData } from './sse.js'
+
+// 本实例实现的协议版本：v2 的 /willknow/chat 可以 SSE 流式返回进度与部分文本
+export const PROTOCOL_VERSION = 2
+
+const CHAT_TIMEOUT = 60_000   // JSON 响应：整体超时；流式响应：两个事件之间的最长间隔
+
+// 委派深度：本实例作为 SubAgent 处理请求时记录调用方传入的深度，向下游发起请求时加一，
+// 超过 MAX_CALL_DEPTH 的请求直接拒绝，避免实例互相（或自身）调用形成死循环
+export const MAX_CALL_DEPTH = 5
+const callDepth = new AsyncLocalStorage()
+
+export function withCallDepth(depth, fn) {
+  return callDepth.run(depth, fn)
+}
+
+// 向下游 SubAgent / MCP server 发起请求时携带的深度头
+export function callDepthHeader() {
+  return { 'X-Willknow-Depth': String((callDepth.getStore() ?? 0) + 1) }
+}
 
 /**
- * 探测 SubAgent 的 /willknow/info 接口
- * 返回其能力描述，用于构造 LLM tool
+ * 请求 SubAgent 的 /willknow/info 接口
+ * 传入 etag 时携带 If-None-Match，服务端返回 304 时结果为 { notModified: true }
  */
-export async function probeSubAgent(url, auth) {
-  const headers = {}
+async function fetchInfo(url, auth, etag) {
+  const headers = callDepthHeader()
   if (auth?.type === 'bearer' && auth?.token) {
     headers['Authorization'] = `Bearer ${auth.token}`
   }
+  if (etag) headers['If-None-Match'] = etag
 
-  const res = await fetch(`${url}/willknow/info`, { headers, signal: AbortSignal.timeout(5000) })
+  const res = await fetch(`${url}/willknow/info`, { headers, signal: AbortSignal.timeout(5000) }).catch(err => {
+    throw err.name === 'AbortError' ? new Error('请求超时（5 秒无响应）') : err
+  })
+  if (res.status === 304) return { notModified: true }
   if (!res.ok) throw new Error(`HTTP ${res.status}`)
-  return await res.json()
+  return { info: await res.json(), etag: res.headers.get('etag') }
 }
 
 /**
- * 将 SubAgent 配置 + info 转换为 LLM tool 定义
+ * 探测 SubAgent 的 /willknow/info 接口（不使用缓存）
+ * 返回其能力描述，用于构造 LLM tool
  */
-export function buildSubAgentTool(subAgent, info) {
-  const capList = (info.capabilities || [])
-    .map(c => `- ${c.name}: ${c.description}`)
-    .join('\n')
+export async function probeSubAgent(url, auth) {
+  return (await fetchInfo(url, auth)).info
+}
 
-  const description = `${info.name || subAgent.name}: ${info.description || ''}${capList ? '\n\nCapabilities:\n' + capList : ''}`
+// 声明了 input_schema（type 为 object）的能力注册为独立的结构化 tool
+function isTyped(capability) {
+  return capability.input_schema?.type === 'object'
+}
+
+// tool 名称只允许字母、数字、下划线和连字符
+function slugify(text) {
+  return String(text).toLowerCase().replace(/[^a-z0-9_-]+/g, '_').replace(/^_+|_+$/g, '')
+}
 
-  return {
+/**
+ * 结构化 tool 的名称前缀：SubAgent 显示名称转为 snake_case（如 task_api），
+ * 名称中没有可用字符（如中文名称）时使用 ID 前缀
+ */
+export function toolPrefix(subAgent) {
+  return slugify(subAgent.name).slice(0, 24) || `sa_${subAgent.id.slice(0, 8)}`
+}
+
+/**
+ * 将 SubAgent 配置 + info 转换为 LLM tool 定义
+ *
+ * 声明了 input_schema 的能力各自成为一个 tool（如 task_api__create_task），参数按 schema 提取，
+ * 通过 /willknow/invoke 调用；其余能力（或未列出任何能力时）合并为一个 subagent_<id> tool，
+ * 以自然语言通过 /willknow/chat 调用
+ */
+export function buildSubAgentTools(subAgent, info, prefix = toolPrefix(subAgent)) {
+  const agentName = info.name || subAgent.name
+  const base = {
     subAgentId: subAgent.id,
     subAgentUrl: subAgent.url,
     subAgentAuth: subAgent.auth,
+    protocolVersion: info.protocol_version || 1,
+    agentName,
+  }
+  const capabilities = info.capabilities || []
+  const typed = capabilities.filter(isTyped)
+  const untyped = capabilities.filter(c => !isTyped(c))
+
+  const entries = typed.map(c => ({
+    ...base,
+    capability: c.name,
     tool: {
-      name: `subagent_${subAgent.id.replace(/-/g, '_')}`,
-      description,
-      input_schema: {
-        type: 'object',
-        properties: {
-          message: {
-            type: 'string',
-            description: '用自然语言描述你要执行的操作',
+      name: `${prefix}__${slugify(c.name)}`.slice(0, 64),
+      description: `${agentName} · ${c.name}: ${c.description || ''}`,
+      input_schema: c.input_schema,
+    },
+  }))
+
+  if (untyped.length > 0 || typed.length === 0) {
+    const capList = untyped
+      .map(c => `- ${c.name}: ${c.description}`)
+      .join('\n')
+
+    entries.push({
+      ...base,
+      tool: {
+        name: `subagent_${subAgent.id.replace(/-/g, '_')}`,
+        description: `${agentName}: ${info.description || ''}${capList ? '\n\nCapabilities:\n' + capList : ''}`,
+        input_schema: {
+          type: 'object',
+          properties: {
+            message: {
+              type: 'string',
+              description: '用自然语言描述你要执行的操作',
+            },
           },
+          required: ['message'],
         },
-        required: ['message'],
       },
-    },
+    })
   }
+  return entries
 }
 
 /**
- * 调用 SubAgent 的 /willknow/chat 接口
+ * 调用 SubAgent 的 /willknow/chat 接口，返回 { message, session_id }
+ * signal 用于用户中止对话时取消请求（与超时同时生效）
+ *
+ * 传入 onProgress 时（SubAgent 声明支持 v2）请求 SSE 流式响应，收到的进度与部分文本通过
+ * onProgress(kind, content) 回调，kind 为 'progress' | 'text'；SubAgent 仍返回 JSON 时按 v1 处理
  */
-export async function callSubAgent(url, auth, message, sessionId) {
-  const headers = { 'Content-Type': 'application/json' }
+export async function callSubAgent(url, auth, message, sessionId, signal, onProgress) {
+  const headers = {
+    'Content-Type': 'application/json',
+    'Accept': onProgress ? 'text/event-stream, application/json' : 'application/json',
+    ...callDepthHeader(),
+  }
   if (auth?.type === 'bearer' && auth?.token) {
     headers['Authorization'] = `Bearer ${auth.token}`
   }
@@ -58,37 +142,245 @@ export async function callSubAgent(url, auth, message, sessionId) {
   const body = { message }
   if (sessionId) body.session_id = sessionId
 
-  const res = await fetch(`${url}/willknow/chat`, {
+  // 超时计时器：流式响应每收到一个事件重新计时
+  const timeout = new AbortController()
+  let timer
+  const resetTimer = () => {
+    clearTimeout(timer)
+    timer = setTimeout(() => timeout.abort(), CHAT_TIMEOUT)
+  }
+  resetTimer()
+
+  try {
+    const res = await fetch(`${url}/willknow/chat`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify(body),
+      signal: signal ? AbortSignal.any([signal, timeout.signal]) : timeout.signal,
+    })
+    if (!res.ok) {
+      const text = await res.text()
+      throw new Error(`SubAgent error ${res.status}: ${text}`)
+    }
+    if (!(res.headers.get('content-type') || '').includes('text/event-stream')) return await res.json()
+    return await readChatStream(res.body, onProgress ?? (() => {}), resetTimer)
+  } catch (err) {
+    if (timeout.signal.aborted && !signal?.aborted) throw new Error(`SubAgent 响应超时（${CHAT_TIMEOUT / 1000} 秒无响应）`)
+    throw err
+  } finally {
+    clearTimeout(timer)
+  }
+}
+
+/**
+ * 读取 v2 流式响应：
+ *   { "type": "progress", "message": "..." }   进度说明
+ *   { "type": "text", "content": "..." }       部分回答（增量）
+ *   { "type": "done", "message": "...", "session_id": "..." }  结束，message 省略时为累积的部分回答
+ *   { "type": "error", "message": "..." }
+ */
+async function readChatStream(stream, onProgress, onActivity) {
+  let text = ''
+  for await (const data of iterSseData(stream)) {
+    onActivity()
+    let event
+    try { event = JSON.parse(data) } catch { continue }
+    if (event.type === 'progress') {
+      onProgress('progress', event.message || '')
+    } else if (event.type === 'text') {
+      text += event.content || ''
+      onProgress('text', event.content || '')
+    } else if (event.type === 'done') {
+      return { message: event.message ?? text, session_id: event.session_id }
+    } else if (event.type === 'error') {
+      throw new Error(`SubAgent error: ${event.message}`)
+    }
+  }
+  if (!text) throw new Error('SubAgent stream ended without a result')
+  return { message: text }
+}
+
+/**
+ * 以结构化参数调用 SubAgent 的某项能力：POST /willknow/invoke { capability, arguments } → { result }
+ * 调用无状态，不使用 session；result 不是字符串时格式化为 JSON 交给 LLM
+ */
+export async function invokeSubAgent(url, auth, capability, args, signal) {
+  const headers = { 'Content-Type': 'application/json', ...callDepthHeader() }
+  if (auth?.type === 'bearer' && auth?.token) {
+    headers['Authorization'] = `Bearer ${auth.token}`
+  }
+
+  const timeout = AbortSignal.timeout(CHAT_TIMEOUT)
+  const res = await fetch(`${url}/willknow/invoke`, {
     method: 'POST',
     headers,
-    body: JSON.stringify(body),
-    signal: AbortSignal.timeout(60000),
+    body: JSON.stringify({ capability, arguments: args ?? {} }),
+    signal: signal ? AbortSignal.any([signal, timeout]) : timeout,
   })
   if (!res.ok) {
     const text = await res.text()
     throw new Error(`SubAgent error ${res.status}: ${text}`)
   }
-  return await res.json()
+  const { result } = await res.json()
+  return typeof result === 'string' ? result : JSON.stringify(result ?? null, null, 2)
 }
 
 /**
- * 加载所有启用的 SubAgent，探测其能力，返回 tool 列表
- * 无法连通的 SubAgent 会被跳过（打印警告）
+ * 加载所有启用的 SubAgent 的 tool 列表（一个 SubAgent 可能对应多个 tool）
+ * info 取自缓存，最近一次健康检查失败的 SubAgent 直接跳过，不等待探测超时
+ * SubAgent session 由调用方随对话保存（conv.subAgentSessions），不在这里创建
  */
 export async function loadSubAgentTools(subAgents) {
   const tools = []
-  const sessions = {} // subAgentId -> sessionId (跨轮次复用 session)
+  const prefixes = new Set()
+  const enabled = subAgents.filter(sa => sa.enabled)
+  const infos = await Promise.all(enabled.map(getSubAgentInfo))
+
+  enabled.forEach((sa, i) => {
+    if (!infos[i]) return
+    // 显示名称相同的 SubAgent 改用 ID 前缀，避免结构化 tool 重名
+    let prefix = toolPrefix(sa)
+    if (prefixes.has(prefix)) prefix = `sa_${sa.id.slice(0, 8)}`
+    prefixes.add(prefix)
+    tools.push(...buildSubAgentTools(sa, infos[i], prefix))
+  })
+
+  return { tools }
+}
+
+// ─── info 缓存与健康检查 ─────────────────────────────────────────────────────
+
+const INFO_TTL = 5 * 60_000   // 缓存的 info 超过该时长后在后台刷新
+const CHECK_INTERVAL = (Number(process.env.SUBAGENT_CHECK_INTERVAL) || 30) * 1000
 
-  for (const sa of subAgents) {
-    if (!sa.enabled) continue
+// subAgentId -> 缓存的 info 与健康状态；URL 或认证变更后重新建立
+const states = new Map()
+let monitorTimer = null
+
+function connectionKey(subAgent) {
+  return JSON.stringify([subAgent.url, subAgent.auth?.type, subAgent.auth?.token])
+}
+
+function getState(subAgent) {
+  let state = states.get(subAgent.id)
+  if (!state || state.key !== connectionKey(subAgent)) {
+    state = {
+      key: connectionKey(subAgent),
+      info: null,
+      etag: null,
+      fetchedAt: 0,
+      healthy: null,          // null：尚未检查
+      latencyMs: null,
+      checks: 0,
+      failures: 0,
+      lastCheckedAt: null,
+      lastOkAt: null,
+      lastError: null,
+      pending: null,
+    }
+    states.set(subAgent.id, state)
+  }
+  return state
+}
+
+/**
+ * 检查一个 SubAgent：请求 /willknow/info（带上次的 ETag），更新缓存的 info 与健康状态
+ * 同一 SubAgent 同时只进行一次检查，返回的 Promise 不会 reject
+ */
+export function checkSubAgent(subAgent) {
+  const state = getState(subAgent)
+  state.pending ??= (async () => {
+    const startedAt = Date.now()
     try {
-      const info = await probeSubAgent(sa.url, sa.auth)
-      const entry = buildSubAgentTool(sa, info)
-      tools.push(entry)
+      const result = await fetchInfo(subAgent.url, subAgent.auth, state.info ? state.etag : null)
+      if (!result.notModified) {
+        state.info = result.info
+        state.etag = result.etag
+      }
+      if (state.healthy === false) console.log(`[SubAgent] ${subAgent.name} 已恢复`)
+      state.healthy = true
+      state.latencyMs = Date.now() - startedAt
+      state.fetchedAt = state.lastOkAt = Date.now()
+      state.lastError = null
     } catch (err) {
-      console.warn(`[SubAgent] 无法连通 ${sa.name} (${sa.url}): ${err.message}`)
+      // 只在状态变化时打印，避免后台检查反复刷屏
+      if (state.healthy !== false) console.warn(`[SubAgent] 无法连通 ${subAgent.name} (${subAgent.url}): ${err.message}`)
+      state.healthy = false
+      state.failures++
+      state.lastError = err.message
+    } finally {
+      state.checks++
+      state.lastCheckedAt = Date.now()
+      state.pending = null
+    }
+  })()
+  return state.pending
+}
+
+/**
+ * 取得 SubAgent 的 info：从未检查过时等待探测；缓存过期时先返回旧值，在后台刷新；
+ * 最近一次检查失败时返回 null，由后台健康检查负责恢复
+ */
+export async function getSubAgentInfo(subAgent) {
+  const state = getState(subAgent)
+  if (state.healthy === null) await checkSubAgent(subAgent)
+  else if (state.healthy && Date.now() - state.fetchedAt > INFO_TTL) checkSubAgent(subAgent)
+  return state.healthy ? state.info : null
+}
+
+/**
+ * 只读取缓存的 info，不发起请求（用于 /willknow/info，避免实例互相探测时等待彼此）
+ */
+export function getCachedSubAgentInfo(subAgent) {
+  const state = states.get(subAgent.id)
+  return state?.key === connectionKey(subAgent) && state.healthy ? state.info : null
+}
+
+/**
+ * 按最新配置同步：清除已删除或禁用的 SubAgent 的状态，立即检查新增或连接配置变更的
+ */
+export function syncSubAgentHealth(subAgents) {
+  const enabled = subAgents.filter(sa => sa.enabled)
+  const ids = new Set(enabled.map(sa => sa.id))
+  for (const id of states.keys()) {
+    if (!ids.has(id)) states.delete(id)
+  }
+  for (const sa of enabled) {
+    if (getState(sa).healthy === null) checkSubAgent(sa)
+  }
+}
+
+/**
+ * 启动后台健康检查：每 CHECK_INTERVAL 检查一次 getSubAgents() 返回的已启用 SubAgent
+ */
+export function startSubAgentMonitor(getSubAgents) {
+  clearInterval(monitorTimer)
+  const checkAll = () => {
+    const subAgents = getSubAgents()
+    syncSubAgentHealth(subAgents)
+    for (const sa of subAgents) {
+      if (sa.enabled) checkSubAgent(sa)
     }
   }
+  checkAll()
+  monitorTimer = setInterval(checkAll, CHECK_INTERVAL)
+  monitorTimer.unref()
+}
 
-  return { tools, sessions }
+/**
+ * 各 SubAgent 的健康状态（GET /api/subagents/status），uptime 为检查成功的比例
+ */
+export function getSubAgentStatus() {
+  const result = {}
+  for (const [id, state] of states.entries()) {
+    result[id] = {
+      healthy: state.healthy,
+      latencyMs: state.latencyMs,
+      uptime: state.checks ? (state.checks - state.failures) / state.checks : null,
+      lastCheckedAt: state.lastCheckedAt,
+      lastOkAt: state.lastOkAt,
+      lastError: state.lastError,
+    }
+  }
+  return result
 }
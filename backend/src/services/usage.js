@@ -0,0 +1,107 @@
+import { readFileSync, appendFileSync, mkdirSync, existsSync } from 'fs'
+import { join } from 'path'
+import { DATA_DIR } from '../config/index.js'
+
+const USAGE_DIR = join(DATA_DIR, 'usage')
+
+/**
+ * Token 用量记录：每次 LLM 调用一条，按天追加到 usage/YYYY-MM-DD.jsonl
+ *
+ * 记录结构：{ time, modelId, modelName, inputTokens, outputTokens, cost, source, conversationId?, channelId?, chatId?, apiKeyId? }
+ *   - source: 'chat'（网页对话）| 'channel'（通道机器人）| 'willknow'（作为 SubAgent / MCP server 被调用）| 'api'（OpenAI 兼容接口，带 apiKeyId）
+ *   - cost: 按调用时模型配置的单价计算，之后修改单价不影响历史记录
+ */
+
+// 本地时区的日期 YYYY-MM-DD
+function dayKey(ts) {
+  const d = new Date(ts)
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`
+}
+
+/**
+ * 按模型单价（每百万 token）计算费用，未设置单价的部分按 0 计
+ */
+export function priceUsage(model, { inputTokens, outputTokens }) {
+  const cost = (inputTokens * (model.inputPrice || 0) + outputTokens * (model.outputPrice || 0)) / 1e6
+  return Math.round(cost * 1e6) / 1e6
+}
+
+/**
+ * 追加一条用量记录；写入失败只打日志，不影响对话
+ */
+export function recordUsage(entry) {
+  const record = { time: Date.now(), ...entry }
+  try {
+    mkdirSync(USAGE_DIR, { recursive: true })
+    appendFileSync(join(USAGE_DIR, `${dayKey(record.time)}.jsonl`), JSON.stringify(record) + '\n', 'utf-8')
+  } catch (err) {
+    console.error('[usage] 写入用量记录失败:', err.message)
+  }
+}
+
+function readDay(day) {
+  const path = join(USAGE_DIR, `${day}.jsonl`)
+  if (!existsSync(path)) return []
+  const records = []
+  for (const line of readFileSync(path, 'utf-8').split('\n')) {
+    if (!line) continue
+    try { records.push(JSON.parse(line)) } catch {}
+  }
+  return records
+}
+
+function emptyTotals() {
+  return { calls: 0, inputTokens: 0, outputTokens: 0, cost: 0 }
+}
+
+function addTo(totals, r) {
+  totals.calls++
+  totals.inputTokens += r.inputTokens || 0
+  totals.outputTokens += r.outputTokens || 0
+  totals.cost += r.cost || 0
+}
+
+// 按 key 分组累加，结果按费用、token 数倒序
+function groupBy(records, keyOf, describe) {
+  const groups = new Map()
+  for (const r of records) {
+    const key = keyOf(r)
+    if (!key) continue
+    if (!groups.has(key)) groups.set(key, { key, ...emptyTotals() })
+    const group = groups.get(key)
+    Object.assign(group, describe(r))
+    addTo(group, r)
+  }
+  return [...groups.values()].sort((a, b) =>
+    b.cost - a.cost || (b.inputTokens + b.outputTokens) - (a.inputTokens + a.outputTokens))
+}
+
+/**
+ * 最近 days 天（含今天）的用量汇总：总计、每日合计，以及按模型 / 通道 / 对话的分组
+ * 名称类字段取最近一条记录上的值，调用方可再用当前配置覆盖
+ */
+export function getUsageReport(days = 30) {
+  const records = []
+  const daily = []
+  const now = new Date()
+  for (let i = days - 1; i >= 0; i--) {
+    const day = dayKey(new Date(now.getFullYear(), now.getMonth(), now.getDate() - i).getTime())
+    const dayRecords = readDay(day)
+    const totals = emptyTotals()
+    dayRecords.forEach(r => addTo(totals, r))
+    daily.push({ date: day, ...totals })
+    records.push(...dayRecords)
+  }
+
+  const totals = emptyTotals()
+  records.forEach(r => addTo(totals, r))
+
+  return {
+    days,
+    totals,
+    daily,
+    byModel: groupBy(records, r => r.modelId, r => ({ modelName: r.modelName })),
+    byChannel: groupBy(records, r => r.source === 'channel' && r.channelId, () => ({})),
+    byConversation: groupBy(records, r => r.source !== 'channel' && r.conversationId, () => ({})),
+  }
+}
@@ -1,6 +1,8 @@
 import { BrowserRouter, Routes, Route, Navigate } from 'react-router-dom'
 import Chat from './pages/Chat'
 import Settings from './pages/Settings'
+import ChannelSessions from './pages/ChannelSessions'
+import Usage from './pages/Usage'
 
 export default function App() {
   return (
@@ -8,6 +10,8 @@ export default function App() {
       <Routes>
         <Route path="/" element={<Chat />} />
         <Route path="/settings" element={<Settings />} />
+        <Route path="/settings/channels/:id/sessions" element={<ChannelSessions />} />
+        <Route path="/settings/usage" element={<Usage />} />
         <Route path="*" element={<Navigate to="/" replace />} />
       </Routes>
     </BrowserRouter>
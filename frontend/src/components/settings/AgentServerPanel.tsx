@@ -0,0 +1,99 @@
+import { useState } from 'react'
+import { Button, Descriptions, Tag, Modal, Form, Input, Select, Switch, Typography } from 'antd'
+import { EditOutlined } from '@ant-design/icons'
+import type { AgentServerConfig, ModelConfig } from '../../types/config'
+
+const { Text } = Typography
+
+interface Props {
+  agent?: AgentServerConfig
+  models: ModelConfig[]
+  onChange: (agent: AgentServerConfig) => void
+}
+
+/**
+ * 对外服务：开启后本实例可作为其他 willknow 实例的 SubAgent（或 MCP server）被调用
+ */
+export default function AgentServerPanel({ agent, models, onChange }: Props) {
+  const [open, setOpen] = useState(false)
+  const [form] = Form.useForm()
+  const baseURL = `${window.location.origin}/willknow`
+  const model = models.find(m => m.id === agent?.modelId)
+
+  const openEdit = () => {
+    form.resetFields()
+    form.setFieldsValue({ enabled: false, mcp: false, ...agent })
+    setOpen(true)
+  }
+
+  const onSave = () => {
+    form.validateFields().then(values => {
+      onChange({
+        ...values,
+        name: values.name?.trim() || undefined,
+        description: values.description?.trim() || undefined,
+        token: values.token || undefined,
+        systemPrompt: values.systemPrompt?.trim() || undefined,
+      })
+      setOpen(false)
+    })
+  }
+
+  return (
+    <div>
+      <Descriptions column={1} size="small" styles={{ label: { width: 96 } }}>
+        <Descriptions.Item label="状态">
+          <Tag color={agent?.enabled ? 'green' : 'default'}>{agent?.enabled ? '已开启' : '未开启'}</Tag>
+          {agent?.enabled && agent.mcp && <Tag color="purple">MCP</Tag>}
+          {agent?.enabled && agent.token && <Tag>需要 Token</Tag>}
+        </Descriptions.Item>
+        <Descriptions.Item label="名称">{agent?.name || 'willknow'}</Descriptions.Item>
+        <Descriptions.Item label="模型">{model?.name || '默认模型'}</Descriptions.Item>
+        <Descriptions.Item label="SubAgent URL">
+          <Text copyable style={{ fontSize: 12 }}>{window.location.origin}</Text>
+        </Descriptions.Item>
+        {agent?.mcp && (
+          <Descriptions.Item label="MCP 端点">
+            <Text copyable style={{ fontSize: 12 }}>{`${baseURL}/mcp`}</Text>
+          </Descriptions.Item>
+        )}
+      </Descriptions>
+      <Text type="secondary" style={{ fontSize: 12 }}>
+        其他 willknow 实例将上面的 URL 添加为 SubAgent 即可调用本实例，每个 session 对应本实例的一个对话
+      </Text>
+      <Button icon={<EditOutlined />} onClick={openEdit} block style={{ marginTop: 8 }}>
+        编辑对外服务
+      </Button>
+
+      <Modal title="对外服务" open={open} onOk={onSave} onCancel={() => setOpen(false)} width={520}>
+        <Form form={form} layout="vertical" style={{ marginTop: 16 }}>
+          <Form.Item name="enabled" label="开启 willknow 协议" valuePropName="checked" extra="开放 /willknow/info 与 /willknow/chat">
+            <Switch />
+          </Form.Item>
+          <Form.Item name="name" label="名称">
+            <Input placeholder="willknow" />
+          </Form.Item>
+          <Form.Item name="description" label="描述" extra="调用方的 LLM 据此判断何时委派给本实例">
+            <Input.TextArea autoSize={{ minRows: 2, maxRows: 4 }} placeholder="如：研发团队助手，可查询任务、部署服务和检索团队文档" />
+          </Form.Item>
+          <Form.Item name="token" label="Bearer Token（可选）" extra="设置后调用方需携带 Authorization: Bearer <token>">
+            <Input.Password placeholder="留空则不校验" />
+          </Form.Item>
+          <Form.Item name="modelId" label="模型">
+            <Select allowClear placeholder="使用默认模型">
+              {models.map(m => (
+                <Select.Option key={m.id} value={m.id}>{m.name}</Select.Option>
+              ))}
+            </Select>
+          </Form.Item>
+          <Form.Item name="systemPrompt" label="系统提示词">
+            <Input.TextArea autoSize={{ minRows: 2, maxRows: 6 }} placeholder="如：你是研发团队的助手，回答要简洁" />
+          </Form.Item>
+          <Form.Item name="mcp" label="开放 MCP 端点" valuePropName="checked" extra="以 MCP server（Streamable HTTP）的形式提供相同能力：/willknow/mcp">
+            <Switch />
+          </Form.Item>
+        </Form>
+      </Modal>
+    </div>
+  )
+}
@@ -0,0 +1,111 @@
+import { useState } from 'react'
+import { Button, List, Popconfirm, Modal, Form, Input, Typography, Alert } from 'antd'
+import { PlusOutlined, DeleteOutlined, KeyOutlined } from '@ant-design/icons'
+import { v4 as uuidv4 } from 'uuid'
+import type { ApiKeyConfig } from '../../types/config'
+
+const { Text } = Typography
+
+// wk- 前缀 + 48 位随机十六进制
+function generateKey() {
+  const bytes = crypto.getRandomValues(new Uint8Array(24))
+  return 'wk-' + Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('')
+}
+
+function maskKey(key: string) {
+  return `${key.slice(0, 7)}...${key.slice(-4)}`
+}
+
+interface Props {
+  apiKeys: ApiKeyConfig[]
+  onChange: (apiKeys: ApiKeyConfig[]) => void
+}
+
+/**
+ * OpenAI 兼容接口（/v1/chat/completions、/v1/models）的 API Key 管理，未创建 Key 时接口不可用
+ */
+export default function ApiKeysPanel({ apiKeys, onChange }: Props) {
+  const [open, setOpen] = useState(false)
+  const [created, setCreated] = useState<ApiKeyConfig | null>(null)
+  const [form] = Form.useForm()
+  const baseURL = `${window.location.origin}/v1`
+
+  const openAdd = () => {
+    form.resetFields()
+    setCreated(null)
+    setOpen(true)
+  }
+
+  const onCreate = () => {
+    form.validateFields().then(({ name }) => {
+      const apiKey = { id: uuidv4(), name: name.trim(), key: generateKey(), createdAt: Date.now() }
+      onChange([...apiKeys, apiKey])
+      setCreated(apiKey)
+    })
+  }
+
+  const onDelete = (id: string) => {
+    onChange(apiKeys.filter(k => k.id !== id))
+  }
+
+  return (
+    <div>
+      <div style={{ marginBottom: 8, fontSize: 12, color: '#8c8c8c' }}>
+        Base URL：<Text copyable code style={{ fontSize: 11 }}>{baseURL}</Text>
+        ，model 填写模型名称或对外服务的名称，工具调用在服务端完成
+      </div>
+      <List
+        dataSource={apiKeys}
+        locale={{ emptyText: '暂无 API Key，创建后即可通过 OpenAI 兼容接口调用' }}
+        renderItem={k => (
+          <List.Item
+            actions={[
+              <Popconfirm title="确认删除？使用该 Key 的调用方将无法访问" onConfirm={() => onDelete(k.id)} key="del">
+                <Button type="text" size="small" danger icon={<DeleteOutlined />} />
+              </Popconfirm>,
+            ]}
+          >
+            <List.Item.Meta
+              avatar={<KeyOutlined style={{ color: '#8c8c8c', marginTop: 4 }} />}
+              title={k.name}
+              description={
+                <Text type="secondary" copyable={{ text: k.key }} style={{ fontSize: 12 }}>
+                  {maskKey(k.key)} · {new Date(k.createdAt).toLocaleDateString()}
+                </Text>
+              }
+            />
+          </List.Item>
+        )}
+      />
+      <Button icon={<PlusOutlined />} onClick={openAdd} block style={{ marginTop: 8 }}>
+        创建 API Key
+      </Button>
+
+      <Modal
+        title="创建 API Key"
+        open={open}
+        onOk={created ? () => setOpen(false) : onCreate}
+        okText={created ? '完成' : '创建'}
+        cancelButtonProps={{ style: created ? { display: 'none' } : undefined }}
+        onCancel={() => setOpen(false)}
+        width={480}
+      >
+        {created ? (
+          <Alert
+            type="success"
+            showIcon
+            style={{ marginTop: 16 }}
+            message={`已创建「${created.name}」`}
+            description={<Text copyable code>{created.key}</Text>}
+          />
+        ) : (
+          <Form form={form} layout="vertical" style={{ marginTop: 16 }}>
+            <Form.Item name="name" label="名称" rules={[{ required: true, whitespace: true }]} extra="用于区分调用方">
+              <Input placeholder="如：IDE 插件、巡检脚本" />
+            </Form.Item>
+          </Form>
+        )}
+      </Modal>
+    </div>
+  )
+}
@@ -1,20 +1,35 @@
 import { useState, useEffect } from 'react'
 import {
   Button, List, Popconfirm, Modal, Form, Input,
-  Space, Typography, Badge, Switch, Select
+  Space, Typography, Badge, Switch, Select, Tooltip, Divider
 } from 'antd'
 import {
-  PlusOutlined, EditOutlined, DeleteOutlined,
-  WechatOutlined, LoadingOutlined
+  PlusOutlined, EditOutlined, DeleteOutlined, LoadingOutlined, MessageOutlined,
+  QqOutlined, WechatOutlined, SendOutlined, SlackOutlined, ApiOutlined
 } from '@ant-design/icons'
+import { useNavigate } from 'react-router-dom'
 import { v4 as uuidv4 } from 'uuid'
-import type { ChannelConfig } from '../../types/config'
+import type { ChannelConfig, ChannelTypeInfo, ModelConfig, SkillConfig, SubAgentConfig } from '../../types/config'
+import SchemaFormFields, { schemaDefaults, isFieldVisible, displayValue } from './SchemaFormFields'
 
 const { Text } = Typography
 
-const CHANNEL_TYPES = [
-  { value: 'qq', label: 'QQ 机器人', icon: <WechatOutlined /> },
-]
+// 通道插件声明的 icon 名称 → 图标，未知时使用通用图标
+const ICONS: Record<string, React.ReactNode> = {
+  qq: <QqOutlined />,
+  wechat: <WechatOutlined />,
+  send: <SendOutlined />,
+  slack: <SlackOutlined />,
+}
+
+function describeChannel(ch: ChannelConfig, info?: ChannelTypeInfo): string {
+  if (!info) return `未知通道类型: ${ch.type}`
+  const values = ch.config || {}
+  const parts = Object.entries(info.schema.properties)
+    .filter(([, field]) => field['x-summary'] && isFieldVisible(field, values))
+    .map(([key, field]) => `${field.title || key}: ${displayValue(field, values[key])}`)
+  return parts.length ? parts.join(' · ') : info.label
+}
 
 const STATUS_MAP: Record<string, { color: 'success' | 'processing' | 'error' | 'default'; text: string }> = {
   connected:    { color: 'success',    text: '已连接' },
@@ -23,21 +38,51 @@ const STATUS_MAP: Record<string, { color: 'success' | 'processing' | 'error' | '
   error:        { color: 'error',      text: '错误' },
 }
 
+// 通道统计项的显示名称，未列出的统计项不展示
+const STAT_LABELS: Record<string, string> = {
+  reconnects: '重连',
+  resumes: '恢复会话',
+}
+
 interface ChannelStatus {
   status: string
   error: string | null
+  stats: Record<string, number> | null
+}
+
+function describeStats(stats: Record<string, number> | null): string {
+  return Object.entries(stats || {})
+    .filter(([key, n]) => STAT_LABELS[key] && n > 0)
+    .map(([key, n]) => `${STAT_LABELS[key]} ${n} 次`)
+    .join(' · ')
 }
 
 interface Props {
   channels: ChannelConfig[]
+  models: ModelConfig[]
+  skills: SkillConfig[]
+  subAgents: SubAgentConfig[]
   onChange: (channels: ChannelConfig[]) => void
 }
 
-export default function ChannelsPanel({ channels, onChange }: Props) {
+export default function ChannelsPanel({ channels, models, skills, subAgents, onChange }: Props) {
+  const navigate = useNavigate()
   const [open, setOpen] = useState(false)
   const [editing, setEditing] = useState<ChannelConfig | null>(null)
+  // 新建时预先分配 ID，webhook 地址中需要用到
+  const [draftId, setDraftId] = useState('')
   const [form] = Form.useForm()
   const [statusMap, setStatusMap] = useState<Record<string, ChannelStatus>>({})
+  const [types, setTypes] = useState<ChannelTypeInfo[]>([])
+  const type: string | undefined = Form.useWatch('type', form)
+  const typeInfo = types.find(t => t.type === type)
+
+  useEffect(() => {
+    fetch('/api/channels/types')
+      .then(r => r.json())
+      .then(data => setTypes(data))
+      .catch(() => {})
+  }, [])
 
   // 每 4 秒轮询一次通道状态
   useEffect(() => {
@@ -54,26 +99,52 @@ export default function ChannelsPanel({ channels, onChange }: Props) {
 
   const openAdd = () => {
     setEditing(null)
+    setDraftId(uuidv4())
     form.resetFields()
-    form.setFieldsValue({ type: 'qq', enabled: true })
+    const first = types[0]
+    form.setFieldsValue({ type: first?.type, enabled: true, config: schemaDefaults(first?.schema) })
     setOpen(true)
   }
 
   const openEdit = (ch: ChannelConfig) => {
     setEditing(ch)
-    form.setFieldsValue({ ...ch, ...ch.config })
+    const info = types.find(t => t.type === ch.type)
+    form.resetFields()
+    form.setFieldsValue({
+      ...ch,
+      config: { ...schemaDefaults(info?.schema), ...ch.config },
+      restrictSkills: ch.allowedSkills !== undefined,
+      restrictSubAgents: ch.allowedSubAgents !== undefined,
+    })
     setOpen(true)
   }
 
+  const onTypeChange = (value: string) => {
+    form.setFieldValue('config', schemaDefaults(types.find(t => t.type === value)?.schema))
+  }
+
   const onSave = () => {
     form.validateFields().then(values => {
-      const { type, name, enabled, appId, appSecret } = values
+      const { type, name, enabled, modelId, systemPrompt, restrictSkills, restrictSubAgents } = values
+      const info = types.find(t => t.type === type)
+      const formConfig: Record<string, string | undefined> = form.getFieldValue('config') || {}
+      // 只保存当前类型 Schema 中声明且可见的字段；类型未知（插件未加载）时保留原配置
+      const config: Record<string, string> = info ? {} : { ...editing?.config }
+      for (const [key, field] of Object.entries(info?.schema.properties || {})) {
+        const value = formConfig[key]
+        if (value && isFieldVisible(field, formConfig)) config[key] = value
+      }
       const ch: ChannelConfig = {
-        id: editing?.id || uuidv4(),
+        id: editing?.id || draftId,
         type,
-        name: name || (type === 'qq' ? 'QQ 机器人' : type),
-        config: { appId, appSecret },
+        name: name || info?.label || type,
+        config,
         enabled: enabled ?? true,
+        modelId: modelId || undefined,
+        systemPrompt: systemPrompt?.trim() || undefined,
+        // 开启限制但不选择任何项表示全部禁用
+        allowedSkills: restrictSkills ? values.allowedSkills || [] : undefined,
+        allowedSubAgents: restrictSubAgents ? values.allowedSubAgents || [] : undefined,
       }
       if (editing) {
         onChange(channels.map(c => c.id === editing.id ? ch : c))
@@ -100,9 +171,13 @@ export default function ChannelsPanel({ channels, onChange }: Props) {
         renderItem={ch => {
           const st = statusMap[ch.id]
           const statusInfo = STATUS_MAP[st?.status || (ch.enabled ? 'connecting' : 'disconnected')]
+          const statsText = describeStats(st?.stats ?? null)
           return (
             <List.Item
               actions={[
+                <Tooltip title="会话记录" key="sessions">
+                  <Button type="text" size="small" icon={<MessageOutlined />} onClick={() => navigate(`/settings/channels/${ch.id}/sessions`)} />
+                </Tooltip>,
                 <Button type="text" size="small" icon={<EditOutlined />} onClick={() => openEdit(ch)} key="edit" />,
                 <Popconfirm title="确认删除？" onConfirm={() => onDelete(ch.id)} key="del">
                   <Button type="text" size="small" danger icon={<DeleteOutlined />} />
@@ -133,8 +208,13 @@ export default function ChannelsPanel({ channels, onChange }: Props) {
                 description={
                   <Space direction="vertical" size={0}>
                     <Text type="secondary" style={{ fontSize: 12 }}>
-                      AppID: {ch.config?.appId || '未配置'}
+                      {describeChannel(ch, types.find(t => t.type === ch.type))}
                     </Text>
+                    {statsText && (
+                      <Text type="secondary" style={{ fontSize: 11 }}>
+                        {statsText}
+                      </Text>
+                    )}
                     {st?.error && (
                       <Text type="danger" style={{ fontSize: 11 }}>
                         {st.error}
@@ -160,34 +240,68 @@ export default function ChannelsPanel({ channels, onChange }: Props) {
       >
         <Form form={form} layout="vertical" style={{ marginTop: 16 }}>
           <Form.Item name="type" label="通道类型" rules={[{ required: true }]}>
-            <Select disabled={!!editing}>
-              {CHANNEL_TYPES.map(t => (
-                <Select.Option key={t.value} value={t.value}>
-                  <Space>{t.icon}{t.label}</Space>
+            <Select disabled={!!editing} onChange={onTypeChange}>
+              {types.map(t => (
+                <Select.Option key={t.type} value={t.type}>
+                  <Space>{ICONS[t.icon || ''] ?? <ApiOutlined />}{t.label}</Space>
                 </Select.Option>
               ))}
             </Select>
           </Form.Item>
 
           <Form.Item name="name" label="显示名称">
-            <Input placeholder="如：我的 QQ 机器人" />
+            <Input placeholder={`如：我的 ${typeInfo?.label || '机器人'}`} />
           </Form.Item>
 
-          <Form.Item
-            name="appId"
-            label="App ID"
-            rules={[{ required: true, message: '请输入 App ID' }]}
-          >
-            <Input placeholder="QQ 开放平台的 App ID" />
+          {typeInfo && (
+            <SchemaFormFields
+              schema={typeInfo.schema}
+              channelId={editing?.id || draftId}
+            />
+          )}
+
+          <Divider orientation="left" plain style={{ fontSize: 13 }}>对话设置</Divider>
+
+          <Form.Item name="modelId" label="模型">
+            <Select allowClear placeholder="使用默认模型">
+              {models.map(m => (
+                <Select.Option key={m.id} value={m.id}>{m.name}</Select.Option>
+              ))}
+            </Select>
           </Form.Item>
 
-          <Form.Item
-            name="appSecret"
-            label="App Secret"
-            rules={[{ required: true, message: '请输入 App Secret' }]}
-            extra="在 QQ 开放平台 → 我的应用 → 开发配置 中获取"
-          >
-            <Input.Password placeholder="App Secret (clientSecret)" />
+          <Form.Item name="systemPrompt" label="系统提示词" extra="设定该通道机器人的人设与回答要求">
+            <Input.TextArea autoSize={{ minRows: 2, maxRows: 6 }} placeholder="如：你是 XX 产品的客服助手，只回答与产品相关的问题" />
+          </Form.Item>
+
+          <Form.Item name="restrictSkills" label="限制可用技能" valuePropName="checked" extra="关闭时可使用全部已启用的技能">
+            <Switch size="small" />
+          </Form.Item>
+          <Form.Item noStyle shouldUpdate={(prev, next) => prev.restrictSkills !== next.restrictSkills}>
+            {({ getFieldValue }) => getFieldValue('restrictSkills') && (
+              <Form.Item name="allowedSkills">
+                <Select mode="multiple" placeholder="不选择则禁用全部技能">
+                  {skills.map(s => (
+                    <Select.Option key={s.id} value={s.id}>{s.name}</Select.Option>
+                  ))}
+                </Select>
+              </Form.Item>
+            )}
+          </Form.Item>
+
+          <Form.Item name="restrictSubAgents" label="限制可用 SubAgent" valuePropName="checked" extra="关闭时可使用全部已启用的 SubAgent">
+            <Switch size="small" />
+          </Form.Item>
+          <Form.Item noStyle shouldUpdate={(prev, next) => prev.restrictSubAgents !== next.restrictSubAgents}>
+            {({ getFieldValue }) => getFieldValue('restrictSubAgents') && (
+              <Form.Item name="allowedSubAgents">
+                <Select mode="multiple" placeholder="不选择则禁用全部 SubAgent">
+                  {subAgents.map(sa => (
+                    <Select.Option key={sa.id} value={sa.id}>{sa.name}</Select.Option>
+                  ))}
+                </Select>
+              </Form.Item>
+            )}
           </Form.Item>
 
           <Form.Item name="enabled" label="立即启用" valuePropName="checked" initialValue={true}>
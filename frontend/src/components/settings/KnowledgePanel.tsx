@@ -0,0 +1,396 @@
+import { useEffect, useRef, useState } from 'react'
+import {
+  Button, List, Tag, Popconfirm, Modal, Form, Input, Space, Switch,
+  Badge, Typography, Alert, Empty, message
+} from 'antd'
+import {
+  PlusOutlined, EditOutlined, DeleteOutlined, FileTextOutlined,
+  UploadOutlined, ReloadOutlined, LoadingOutlined
+} from '@ant-design/icons'
+import { v4 as uuidv4 } from 'uuid'
+import type { KnowledgeCollection, KnowledgeDocument, KnowledgeStatus } from '../../types/config'
+
+const { Text, Paragraph } = Typography
+
+// 与后端 services/knowledge.js 保持一致
+const DOCUMENT_EXTENSIONS = ['.md', '.markdown', '.txt', '.pdf']
+const MAX_DOCUMENT_BYTES = 20 * 1024 * 1024
+
+interface SearchResult {
+  collection: string
+  document: string
+  heading?: string
+  page?: number
+  text: string
+}
+
+async function fetchJSON<T>(url: string, init?: RequestInit): Promise<T> {
+  const res = await fetch(url, init)
+  const data = await res.json().catch(() => ({}))
+  if (!res.ok) throw new Error(data.error || `HTTP ${res.status}`)
+  return data
+}
+
+function formatSize(bytes: number) {
+  if (bytes < 1024) return `${bytes} B`
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`
+}
+
+interface Props {
+  collections: KnowledgeCollection[]
+  onChange: (collections: KnowledgeCollection[]) => void
+}
+
+/**
+ * 知识库集合管理：集合配置随设置保存，文档上传 / 删除 / 重建索引直接调用 /api/knowledge
+ */
+export default function KnowledgePanel({ collections, onChange }: Props) {
+  const [open, setOpen] = useState(false)
+  const [editing, setEditing] = useState<KnowledgeCollection | null>(null)
+  const [form] = Form.useForm()
+  const useEmbedding = Form.useWatch('useEmbedding', form)
+  const [status, setStatus] = useState<Record<string, KnowledgeStatus>>({})
+
+  // 文档管理弹窗
+  const [docsOf, setDocsOf] = useState<KnowledgeCollection | null>(null)
+  const [documents, setDocuments] = useState<KnowledgeDocument[]>([])
+  const [uploading, setUploading] = useState(false)
+  const [reindexing, setReindexing] = useState(false)
+  const [results, setResults] = useState<SearchResult[] | null>(null)
+  const [searching, setSearching] = useState(false)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  const refreshStatus = () => {
+    fetchJSON<Record<string, KnowledgeStatus>>('/api/knowledge/status').then(setStatus).catch(() => {})
+  }
+
+  useEffect(refreshStatus, [collections])
+
+  const openAdd = () => {
+    setEditing(null)
+    form.resetFields()
+    form.setFieldsValue({ enabled: true, useEmbedding: false })
+    setOpen(true)
+  }
+
+  const openEdit = (c: KnowledgeCollection) => {
+    setEditing(c)
+    form.resetFields()
+    form.setFieldsValue({ ...c, useEmbedding: !!c.embedding })
+    setOpen(true)
+  }
+
+  const onSave = async () => {
+    let values: {
+      name: string; description?: string; enabled: boolean; useEmbedding: boolean
+      embedding?: KnowledgeCollection['embedding']
+    }
+    try {
+      values = await form.validateFields()
+    } catch {
+      return
+    }
+    const { useEmbedding: withEmbedding, embedding, ...rest } = values
+    const patch = { ...rest, embedding: withEmbedding ? embedding : undefined }
+    if (editing) {
+      onChange(collections.map(c => c.id === editing.id ? { ...c, ...patch } : c))
+    } else {
+      onChange([...collections, { id: uuidv4(), createdAt: Date.now(), ...patch }])
+    }
+    setOpen(false)
+  }
+
+  const onDelete = (id: string) => {
+    onChange(collections.filter(c => c.id !== id))
+  }
+
+  const onToggle = (id: string, enabled: boolean) => {
+    onChange(collections.map(c => c.id === id ? { ...c, enabled } : c))
+  }
+
+  const loadDocuments = (c: KnowledgeCollection) => {
+    fetchJSON<KnowledgeDocument[]>(`/api/knowledge/${c.id}/documents`)
+      .then(setDocuments)
+      .catch(err => message.error(`加载文档失败: ${(err as Error).message}`))
+  }
+
+  const openDocs = (c: KnowledgeCollection) => {
+    setDocsOf(c)
+    setDocuments([])
+    setResults(null)
+    loadDocuments(c)
+  }
+
+  const upload = async (files: File[]) => {
+    if (!docsOf) return
+    setUploading(true)
+    for (const file of files) {
+      const ext = file.name.slice(file.name.lastIndexOf('.')).toLowerCase()
+      if (!DOCUMENT_EXTENSIONS.includes(ext)) {
+        message.warning(`不支持的文档格式: ${file.name}`)
+        continue
+      }
+      if (file.size > MAX_DOCUMENT_BYTES) {
+        message.warning(`文档超过 20MB: ${file.name}`)
+        continue
+      }
+      try {
+        const doc = await fetchJSON<KnowledgeDocument>(
+          `/api/knowledge/${docsOf.id}/documents?name=${encodeURIComponent(file.name)}`,
+          { method: 'POST', headers: { 'Content-Type': 'application/octet-stream' }, body: file },
+        )
+        setDocuments(prev => [...prev, doc])
+      } catch (err) {
+        message.error(`${file.name} 索引失败: ${(err as Error).message}`)
+      }
+    }
+    setUploading(false)
+    refreshStatus()
+  }
+
+  const removeDocument = async (doc: KnowledgeDocument) => {
+    if (!docsOf) return
+    try {
+      await fetchJSON(`/api/knowledge/${docsOf.id}/documents/${doc.id}`, { method: 'DELETE' })
+      setDocuments(prev => prev.filter(d => d.id !== doc.id))
+      refreshStatus()
+    } catch (err) {
+      message.error(`删除失败: ${(err as Error).message}`)
+    }
+  }
+
+  const reindex = async (c: KnowledgeCollection) => {
+    setReindexing(true)
+    try {
+      await fetchJSON(`/api/knowledge/${c.id}/reindex`, { method: 'POST' })
+      message.success('向量索引已重建')
+      refreshStatus()
+    } catch (err) {
+      message.error(`重建失败: ${(err as Error).message}`)
+    } finally {
+      setReindexing(false)
+    }
+  }
+
+  const search = async (query: string) => {
+    if (!docsOf || !query.trim()) return
+    setSearching(true)
+    try {
+      setResults(await fetchJSON<SearchResult[]>('/api/knowledge/search', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ query, collectionIds: [docsOf.id] }),
+      }))
+    } catch (err) {
+      message.error(`检索失败: ${(err as Error).message}`)
+    } finally {
+      setSearching(false)
+    }
+  }
+
+  const describe = (c: KnowledgeCollection) => {
+    const s = status[c.id]
+    const parts = [
+      s ? `${s.documentCount} 篇文档 · ${s.chunkCount} 个分块` : null,
+      c.embedding ? `向量: ${c.embedding.model}` : 'BM25',
+    ]
+    return parts.filter(Boolean).join(' · ')
+  }
+
+  const docsStatus = docsOf ? status[docsOf.id] : undefined
+
+  return (
+    <div>
+      <List
+        dataSource={collections}
+        locale={{ emptyText: '暂无知识库，点击下方添加' }}
+        renderItem={c => (
+          <List.Item
+            actions={[
+              <Button type="text" size="small" icon={<FileTextOutlined />} onClick={() => openDocs(c)} key="docs">
+                文档
+              </Button>,
+              <Button type="text" size="small" icon={<EditOutlined />} onClick={() => openEdit(c)} key="edit" />,
+              <Popconfirm title="确认删除？已上传的文档索引会一并删除" onConfirm={() => onDelete(c.id)} key="del">
+                <Button type="text" size="small" danger icon={<DeleteOutlined />} />
+              </Popconfirm>,
+            ]}
+          >
+            <List.Item.Meta
+              avatar={
+                <Badge
+                  status={c.enabled ? 'success' : 'default'}
+                  onClick={() => onToggle(c.id, !c.enabled)}
+                  style={{ cursor: 'pointer' }}
+                />
+              }
+              title={
+                <Space>
+                  {c.name}
+                  <Tag color={c.enabled ? 'green' : 'default'}>{c.enabled ? '已启用' : '已禁用'}</Tag>
+                  {status[c.id]?.needsReindex && <Tag color="orange">需重建索引</Tag>}
+                </Space>
+              }
+              description={<Text type="secondary" style={{ fontSize: 12 }}>{describe(c)}</Text>}
+            />
+          </List.Item>
+        )}
+      />
+      <Button icon={<PlusOutlined />} onClick={openAdd} block style={{ marginTop: 8 }}>
+        添加知识库
+      </Button>
+
+      <Modal
+        title={editing ? '编辑知识库' : '添加知识库'}
+        open={open}
+        onOk={onSave}
+        onCancel={() => setOpen(false)}
+        width={520}
+      >
+        <Form form={form} layout="vertical" style={{ marginTop: 16 }}>
+          <Form.Item
+            name="name"
+            label="名称"
+            rules={[
+              { required: true },
+              {
+                validator: (_, name: string) => collections.some(c => c.name === name && c.id !== editing?.id)
+                  ? Promise.reject(new Error('名称已存在'))
+                  : Promise.resolve(),
+              },
+            ]}
+          >
+            <Input placeholder="如：产品文档" />
+          </Form.Item>
+          <Form.Item name="description" label="描述" extra="告诉模型这个知识库包含哪些内容，帮助它判断何时检索">
+            <Input.TextArea rows={2} placeholder="如：产品使用手册、部署文档与常见问题" />
+          </Form.Item>
+          <Form.Item name="enabled" label="启用" valuePropName="checked">
+            <Switch />
+          </Form.Item>
+          <Form.Item
+            name="useEmbedding"
+            label="向量检索"
+            valuePropName="checked"
+            extra="默认使用 BM25 关键词检索；开启后调用 OpenAI 兼容的 /embeddings 接口生成向量，与关键词检索结果混合排序"
+          >
+            <Switch />
+          </Form.Item>
+          {useEmbedding && (
+            <>
+              <Form.Item name={['embedding', 'baseURL']} label="Base URL">
+                <Input placeholder="https://api.openai.com/v1" />
+              </Form.Item>
+              <Form.Item name={['embedding', 'apiKey']} label="API Key">
+                <Input.Password placeholder="sk-..." />
+              </Form.Item>
+              <Form.Item
+                name={['embedding', 'model']}
+                label="向量模型"
+                rules={[{ required: true }]}
+                extra="修改向量配置后需在文档管理中重建索引"
+              >
+                <Input placeholder="如：text-embedding-3-small、BAAI/bge-m3" />
+              </Form.Item>
+            </>
+          )}
+        </Form>
+      </Modal>
+
+      <Modal
+        title={docsOf ? `文档 — ${docsOf.name}` : '文档'}
+        open={!!docsOf}
+        onCancel={() => setDocsOf(null)}
+        footer={null}
+        width={640}
+      >
+        {docsOf && docsStatus?.needsReindex && (
+          <Alert
+            type="warning"
+            showIcon
+            style={{ marginBottom: 12 }}
+            message="索引中的向量与当前配置不一致，向量检索暂未生效"
+            action={
+              <Button size="small" icon={<ReloadOutlined />} loading={reindexing} onClick={() => reindex(docsOf)}>
+                重建索引
+              </Button>
+            }
+          />
+        )}
+
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept={DOCUMENT_EXTENSIONS.join(',')}
+          multiple
+          hidden
+          onChange={e => {
+            upload(Array.from(e.target.files || []))
+            e.target.value = ''
+          }}
+        />
+        <Space style={{ marginBottom: 8 }}>
+          <Button
+            icon={uploading ? <LoadingOutlined /> : <UploadOutlined />}
+            disabled={uploading}
+            onClick={() => fileInputRef.current?.click()}
+          >
+            {uploading ? '索引中...' : '上传文档'}
+          </Button>
+          <Text type="secondary" style={{ fontSize: 12 }}>支持 Markdown、纯文本和 PDF，单个不超过 20MB</Text>
+        </Space>
+
+        <List
+          size="small"
+          dataSource={documents}
+          locale={{ emptyText: <Empty image={Empty.PRESENTED_IMAGE_SIMPLE} description="暂无文档" /> }}
+          style={{ maxHeight: 240, overflowY: 'auto' }}
+          renderItem={doc => (
+            <List.Item
+              actions={[
+                <Popconfirm title="确认删除该文档？" onConfirm={() => removeDocument(doc)} key="del">
+                  <Button type="text" size="small" danger icon={<DeleteOutlined />} />
+                </Popconfirm>,
+              ]}
+            >
+              <Space>
+                <FileTextOutlined />
+                <Text>{doc.name}</Text>
+                <Text type="secondary" style={{ fontSize: 12 }}>{formatSize(doc.size)} · {doc.chunkCount} 个分块</Text>
+              </Space>
+            </List.Item>
+          )}
+        />
+
+        <Input.Search
+          placeholder="检索测试：输入问题查看命中的段落"
+          enterButton="检索"
+          loading={searching}
+          onSearch={search}
+          style={{ marginTop: 12 }}
+        />
+        {results && (
+          <List
+            size="small"
+            dataSource={results}
+            locale={{ emptyText: '没有命中的段落' }}
+            style={{ marginTop: 8, maxHeight: 260, overflowY: 'auto' }}
+            renderItem={(r, i) => (
+              <List.Item>
+                <div style={{ width: '100%' }}>
+                  <Text strong style={{ fontSize: 12 }}>
+                    [{i + 1}] {[r.document, r.heading, r.page && `第 ${r.page} 页`].filter(Boolean).join(' · ')}
+                  </Text>
+                  <Paragraph type="secondary" ellipsis={{ rows: 3, expandable: true }} style={{ fontSize: 12, marginBottom: 0 }}>
+                    {r.text}
+                  </Paragraph>
+                </div>
+              </List.Item>
+            )}
+          />
+        )}
+      </Modal>
+    </div>
+  )
+}
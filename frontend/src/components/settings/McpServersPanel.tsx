@@ -0,0 +1,283 @@
+import { useState } from 'react'
+import {
+  Button, List, Tag, Popconfirm, Modal, Form, Input, Space, Switch, Radio,
+  Badge, message, Typography, Collapse
+} from 'antd'
+import {
+  PlusOutlined, EditOutlined, DeleteOutlined,
+  ApiOutlined, CheckCircleOutlined, CloseCircleOutlined, LoadingOutlined
+} from '@ant-design/icons'
+import { v4 as uuidv4 } from 'uuid'
+import type { McpServerConfig } from '../../types/config'
+
+const { Text } = Typography
+
+interface ProbeResult {
+  ok: boolean
+  serverInfo?: { name?: string; version?: string }
+  tools?: Array<{ name: string; description: string }>
+  error?: string
+}
+
+// 表单中参数每行一个、环境变量每行一个 KEY=VALUE
+interface FormValues {
+  name: string
+  transport: 'stdio' | 'http'
+  command?: string
+  argsText?: string
+  envText?: string
+  cwd?: string
+  url?: string
+  token?: string
+  enabled: boolean
+}
+
+function toServer(values: FormValues): Omit<McpServerConfig, 'id'> {
+  const { name, transport, enabled } = values
+  if (transport === 'http') {
+    return {
+      name, transport, enabled,
+      url: values.url?.trim(),
+      auth: values.token ? { type: 'bearer', token: values.token } : { type: 'none' },
+    }
+  }
+  const lines = (text?: string) => (text || '').split('\n').map(l => l.trim()).filter(Boolean)
+  const env: Record<string, string> = {}
+  for (const line of lines(values.envText)) {
+    const eq = line.indexOf('=')
+    if (eq > 0) env[line.slice(0, eq).trim()] = line.slice(eq + 1).trim()
+  }
+  return {
+    name, transport, enabled,
+    command: values.command?.trim(),
+    args: lines(values.argsText),
+    env,
+    cwd: values.cwd?.trim() || undefined,
+  }
+}
+
+function toFormValues(server: McpServerConfig): FormValues {
+  return {
+    name: server.name,
+    transport: server.transport,
+    command: server.command,
+    argsText: (server.args || []).join('\n'),
+    envText: Object.entries(server.env || {}).map(([k, v]) => `${k}=${v}`).join('\n'),
+    cwd: server.cwd,
+    url: server.url,
+    token: server.auth?.token,
+    enabled: server.enabled,
+  }
+}
+
+interface Props {
+  servers: McpServerConfig[]
+  onChange: (servers: McpServerConfig[]) => void
+}
+
+export default function McpServersPanel({ servers, onChange }: Props) {
+  const [open, setOpen] = useState(false)
+  const [editing, setEditing] = useState<McpServerConfig | null>(null)
+  const [form] = Form.useForm<FormValues>()
+  const transport = Form.useWatch('transport', form)
+  const [probing, setProbing] = useState(false)
+  const [probeResult, setProbeResult] = useState<ProbeResult | null>(null)
+
+  const openAdd = () => {
+    setEditing(null)
+    setProbeResult(null)
+    form.resetFields()
+    form.setFieldsValue({ transport: 'stdio', enabled: true })
+    setOpen(true)
+  }
+
+  const openEdit = (server: McpServerConfig) => {
+    setEditing(server)
+    setProbeResult(null)
+    form.resetFields()
+    form.setFieldsValue(toFormValues(server))
+    setOpen(true)
+  }
+
+  const onProbe = async () => {
+    const server = toServer(form.getFieldsValue(true))
+    if (server.transport === 'http' ? !server.url : !server.command) {
+      message.warning(server.transport === 'http' ? '请先填写 URL' : '请先填写命令')
+      return
+    }
+    setProbing(true)
+    setProbeResult(null)
+    try {
+      const res = await fetch('/api/mcp/probe', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(server),
+      })
+      const data: ProbeResult = await res.json()
+      setProbeResult(data)
+      if (data.ok && data.serverInfo?.name && !form.getFieldValue('name')) {
+        form.setFieldsValue({ name: data.serverInfo.name })
+      }
+    } catch (e) {
+      setProbeResult({ ok: false, error: String(e) })
+    } finally {
+      setProbing(false)
+    }
+  }
+
+  const onSave = () => {
+    form.validateFields().then(() => {
+      const server = toServer(form.getFieldsValue(true))
+      if (editing) {
+        onChange(servers.map(s => s.id === editing.id ? { id: s.id, ...server } : s))
+      } else {
+        onChange([...servers, { id: uuidv4(), ...server }])
+      }
+      setOpen(false)
+    })
+  }
+
+  const onDelete = (id: string) => {
+    onChange(servers.filter(s => s.id !== id))
+  }
+
+  const onToggle = (id: string, enabled: boolean) => {
+    onChange(servers.map(s => s.id === id ? { ...s, enabled } : s))
+  }
+
+  return (
+    <div>
+      <List
+        dataSource={servers}
+        locale={{ emptyText: '暂无 MCP Server，点击下方添加' }}
+        renderItem={s => (
+          <List.Item
+            actions={[
+              <Button type="text" size="small" icon={<EditOutlined />} onClick={() => openEdit(s)} key="edit" />,
+              <Popconfirm title="确认删除？" onConfirm={() => onDelete(s.id)} key="del">
+                <Button type="text" size="small" danger icon={<DeleteOutlined />} />
+              </Popconfirm>,
+            ]}
+          >
+            <List.Item.Meta
+              avatar={
+                <Badge
+                  status={s.enabled ? 'success' : 'default'}
+                  onClick={() => onToggle(s.id, !s.enabled)}
+                  style={{ cursor: 'pointer' }}
+                />
+              }
+              title={
+                <Space>
+                  {s.name}
+                  <Tag>{s.transport}</Tag>
+                  <Tag color={s.enabled ? 'green' : 'default'}>
+                    {s.enabled ? '已启用' : '已禁用'}
+                  </Tag>
+                </Space>
+              }
+              description={
+                <Text type="secondary" style={{ fontSize: 12 }}>
+                  {s.transport === 'http' ? s.url : [s.command, ...(s.args || [])].join(' ')}
+                </Text>
+              }
+            />
+          </List.Item>
+        )}
+      />
+      <Button icon={<PlusOutlined />} onClick={openAdd} block style={{ marginTop: 8 }}>
+        添加 MCP Server
+      </Button>
+
+      <Modal
+        title={editing ? '编辑 MCP Server' : '添加 MCP Server'}
+        open={open}
+        onOk={onSave}
+        onCancel={() => setOpen(false)}
+        width={520}
+      >
+        <Form form={form} layout="vertical" style={{ marginTop: 16 }}>
+          <Form.Item name="transport" label="传输方式">
+            <Radio.Group
+              options={[{ label: 'stdio（本地命令）', value: 'stdio' }, { label: 'Streamable HTTP', value: 'http' }]}
+              onChange={() => setProbeResult(null)}
+            />
+          </Form.Item>
+
+          {transport === 'http' ? (
+            <>
+              <Form.Item name="url" label="MCP 端点 URL" rules={[{ required: true }]}>
+                <Input placeholder="http://localhost:8000/mcp" />
+              </Form.Item>
+              <Form.Item name="token" label="Bearer Token（可选）">
+                <Input.Password placeholder="留空则不携带 token" />
+              </Form.Item>
+            </>
+          ) : (
+            <>
+              <Form.Item name="command" label="命令" rules={[{ required: true }]}>
+                <Input placeholder="如：npx、uvx、node" />
+              </Form.Item>
+              <Form.Item name="argsText" label="参数" extra="每行一个参数">
+                <Input.TextArea rows={3} placeholder={'-y\n@modelcontextprotocol/server-filesystem\n/data'} />
+              </Form.Item>
+              <Form.Item name="envText" label="环境变量（可选）" extra="每行一个 KEY=VALUE">
+                <Input.TextArea rows={2} placeholder="API_KEY=..." />
+              </Form.Item>
+              <Form.Item name="cwd" label="工作目录（可选）">
+                <Input placeholder="默认为后端目录" />
+              </Form.Item>
+            </>
+          )}
+
+          <Button
+            icon={probing ? <LoadingOutlined /> : <ApiOutlined />}
+            onClick={onProbe}
+            disabled={probing}
+            style={{ marginBottom: 12 }}
+          >
+            探测并列出工具
+          </Button>
+
+          {probeResult && (
+            <div style={{ marginBottom: 12, padding: '8px 12px', background: probeResult.ok ? '#f6ffed' : '#fff2f0', borderRadius: 6, border: `1px solid ${probeResult.ok ? '#b7eb8f' : '#ffccc7'}` }}>
+              {probeResult.ok ? (
+                <>
+                  <Space style={{ marginBottom: 4 }}>
+                    <CheckCircleOutlined style={{ color: '#52c41a' }} />
+                    <Text strong>{probeResult.serverInfo?.name || '已连接'}</Text>
+                    {probeResult.serverInfo?.version && (
+                      <Text type="secondary" style={{ fontSize: 12 }}>v{probeResult.serverInfo.version}</Text>
+                    )}
+                  </Space>
+                  <Collapse size="small" ghost style={{ marginTop: 4 }} items={[{
+                    key: '1',
+                    label: <Text style={{ fontSize: 12 }}>查看 {probeResult.tools?.length ?? 0} 个工具</Text>,
+                    children: (probeResult.tools || []).map(t => (
+                      <div key={t.name} style={{ fontSize: 12, marginBottom: 2 }}>
+                        <Text strong>{t.name}</Text>{t.description && `: ${t.description}`}
+                      </div>
+                    ))
+                  }]} />
+                </>
+              ) : (
+                <Space>
+                  <CloseCircleOutlined style={{ color: '#ff4d4f' }} />
+                  <Text type="danger">连接失败: {probeResult.error}</Text>
+                </Space>
+              )}
+            </div>
+          )}
+
+          <Form.Item name="name" label="显示名称" rules={[{ required: true }]}>
+            <Input placeholder="如：Filesystem" />
+          </Form.Item>
+
+          <Form.Item name="enabled" label="启用" valuePropName="checked">
+            <Switch />
+          </Form.Item>
+        </Form>
+      </Modal>
+    </div>
+  )
+}
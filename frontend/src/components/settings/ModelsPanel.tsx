@@ -1,6 +1,6 @@
 import { useState } from 'react'
 import {
-  Form, Input, Select, Button, List, Tag, Popconfirm, Modal, Typography, Space, Tooltip, Alert
+  Form, Input, InputNumber, Select, Switch, Button, List, Tag, Popconfirm, Modal, Typography, Space, Tooltip, Alert
 } from 'antd'
 import {
   PlusOutlined, EditOutlined, DeleteOutlined, StarOutlined, StarFilled,
@@ -36,6 +36,8 @@ export default function ModelsPanel({ models, onChange }: Props) {
   const [selectedPreset, setSelectedPreset] = useState<string>('deepseek')
   const [probeStatus, setProbeStatus] = useState<ProbeStatus>('idle')
   const [probeError, setProbeError] = useState<string>('')
+  const thinking = Form.useWatch('thinking', form)
+  const provider = Form.useWatch('provider', form)
 
   const resetProbe = () => {
     setProbeStatus('idle')
@@ -45,7 +47,7 @@ export default function ModelsPanel({ models, onChange }: Props) {
   const openAdd = () => {
     setEditing(null)
     form.resetFields()
-    form.setFieldsValue({ provider: 'openai_compatible', preset: 'deepseek', ...PROVIDER_PRESETS['deepseek'] })
+    form.setFieldsValue({ provider: 'openai_compatible', preset: 'deepseek', thinkingParams: false, ...PROVIDER_PRESETS['deepseek'] })
     setSelectedPreset('deepseek')
     resetProbe()
     setOpen(true)
@@ -55,7 +57,8 @@ export default function ModelsPanel({ models, onChange }: Props) {
     setEditing(m)
     const preset = Object.entries(PROVIDER_PRESETS).find(([, p]) => p.baseURL === m.baseURL)?.[0] || 'custom'
     setSelectedPreset(preset)
-    form.setFieldsValue({ ...m, preset })
+    // 未设置 thinkingParams 的旧配置按后端的默认值显示：仅通义千问接口发送
+    form.setFieldsValue({ ...m, preset, thinkingParams: m.thinkingParams ?? preset === 'qwen' })
     resetProbe()
     setOpen(true)
   }
@@ -65,6 +68,7 @@ export default function ModelsPanel({ models, onChange }: Props) {
     const p = PROVIDER_PRESETS[preset]
     form.setFieldsValue({
       provider: preset === 'anthropic' ? 'anthropic' : 'openai_compatible',
+      thinkingParams: preset === 'qwen',
       baseURL: p.baseURL,
       model: p.defaultModel,
     })
@@ -72,14 +76,30 @@ export default function ModelsPanel({ models, onChange }: Props) {
   }
 
   const onSave = async () => {
-    let values: Record<string, string>
+    let values: Record<string, string> & {
+      fallbacks?: string[]; inputPrice?: number; outputPrice?: number; contextWindow?: number
+      thinking?: boolean; thinkingBudget?: number; thinkingParams?: boolean; vision?: boolean
+    }
     try {
       values = await form.validateFields()
     } catch {
       return
     }
 
-    const { preset: _preset, ...rest } = values
+    const {
+      preset: _preset, fallbacks = [], inputPrice, outputPrice, contextWindow,
+      thinking: thinkingEnabled, thinkingBudget, thinkingParams, vision, ...rest
+    } = values
+    const extra = {
+      fallbacks,
+      inputPrice: inputPrice ?? undefined,
+      outputPrice: outputPrice ?? undefined,
+      contextWindow: contextWindow ?? undefined,
+      thinking: thinkingEnabled || undefined,
+      thinkingBudget: thinkingEnabled ? thinkingBudget ?? undefined : undefined,
+      thinkingParams: thinkingEnabled && rest.provider === 'openai_compatible' ? !!thinkingParams : undefined,
+      vision: vision || undefined,
+    }
 
     // 测试连通性
     setProbeStatus('probing')
@@ -107,9 +127,9 @@ export default function ModelsPanel({ models, onChange }: Props) {
     // 短暂显示成功后保存关闭
     setTimeout(() => {
       if (editing) {
-        onChange(models.map(m => m.id === editing.id ? { ...m, ...rest } : m))
+        onChange(models.map(m => m.id === editing.id ? { ...m, ...rest, ...extra } : m))
       } else {
-        const newModel = { id: uuidv4(), isDefault: models.length === 0, ...rest } as ModelConfig
+        const newModel = { id: uuidv4(), isDefault: models.length === 0, ...rest, ...extra } as ModelConfig
         onChange([...models, newModel])
       }
       setOpen(false)
@@ -118,7 +138,10 @@ export default function ModelsPanel({ models, onChange }: Props) {
   }
 
   const onDelete = (id: string) => {
-    const next = models.filter(m => m.id !== id)
+    // 同时从其他模型的备用列表中移除
+    const next = models
+      .filter(m => m.id !== id)
+      .map(m => m.fallbacks?.includes(id) ? { ...m, fallbacks: m.fallbacks.filter(f => f !== id) } : m)
     if (next.length > 0 && !next.find(m => m.isDefault)) next[0].isDefault = true
     onChange(next)
   }
@@ -127,6 +150,8 @@ export default function ModelsPanel({ models, onChange }: Props) {
     onChange(models.map(m => ({ ...m, isDefault: m.id === id })))
   }
 
+  const modelName = (id: string) => models.find(m => m.id === id)?.name
+
   const okText = probeStatus === 'probing' ? '测试中...' : probeStatus === 'ok' ? '已连接 ✓' : '测试并保存'
 
   return (
@@ -151,10 +176,11 @@ export default function ModelsPanel({ models, onChange }: Props) {
             ]}
           >
             <List.Item.Meta
-              title={<Space>{m.name}{m.isDefault && <Tag color="gold">默认</Tag>}</Space>}
+              title={<Space>{m.name}{m.isDefault && <Tag color="gold">默认</Tag>}{m.vision && <Tag>图片</Tag>}</Space>}
               description={
                 <Text type="secondary" style={{ fontSize: 12 }}>
                   {m.model} · API Key: {m.apiKey ? m.apiKey.slice(0, 8) + '****' : '未配置'}
+                  {!!m.fallbacks?.length && ` · 备用: ${m.fallbacks.map(modelName).filter(Boolean).join(' → ')}`}
                 </Text>
               }
             />
@@ -194,6 +220,65 @@ export default function ModelsPanel({ models, onChange }: Props) {
           <Form.Item name="model" label="模型名称" rules={[{ required: true }]}>
             <Input placeholder="如：deepseek-chat" onChange={resetProbe} />
           </Form.Item>
+          <Form.Item
+            name="fallbacks"
+            label="备用模型"
+            extra="该模型返回 5xx、429 或无法连接（且尚未输出内容）时，按顺序改用备用模型回答"
+          >
+            <Select mode="multiple" allowClear placeholder="不使用备用模型">
+              {models.filter(m => m.id !== editing?.id).map(m => (
+                <Option key={m.id} value={m.id}>{m.name}</Option>
+              ))}
+            </Select>
+          </Form.Item>
+          <Form.Item
+            name="contextWindow"
+            label="上下文窗口（token）"
+            extra="对话历史超过窗口的 80% 时，较早的消息会被总结为摘要；不填按模型名推断（如 Claude 200K、DeepSeek 64K）"
+          >
+            <InputNumber min={1024} step={1024} placeholder="自动" style={{ width: '100%' }} />
+          </Form.Item>
+          <Form.Item
+            name="thinking"
+            label="深度思考"
+            valuePropName="checked"
+            extra="Anthropic 使用扩展思考；deepseek-reasoner 等推理模型无需开启即会输出思考过程"
+          >
+            <Switch />
+          </Form.Item>
+          {thinking && provider === 'openai_compatible' && (
+            <Form.Item
+              name="thinkingParams"
+              label="发送思考参数"
+              valuePropName="checked"
+              extra="请求中附加 enable_thinking / thinking_budget，仅通义千问等支持可控思考的接口需要开启；OpenAI 等严格校验参数的接口会因未知参数返回 400"
+            >
+              <Switch />
+            </Form.Item>
+          )}
+          {thinking && (
+            <Form.Item name="thinkingBudget" label="思考预算（token）">
+              <InputNumber min={1024} step={1024} placeholder="4096" style={{ width: '100%' }} />
+            </Form.Item>
+          )}
+          <Form.Item
+            name="vision"
+            label="图片理解"
+            valuePropName="checked"
+            extra="开启后对话中发送的图片会传给该模型（如 Claude、GPT-4o、qwen-vl）；未开启的模型收到图片时会提示切换模型"
+          >
+            <Switch />
+          </Form.Item>
+          <Form.Item label="单价（每百万 token）" extra="用于用量统计中的费用计算，不填按 0 计；所有模型请使用同一种货币" style={{ marginBottom: 12 }}>
+            <Space>
+              <Form.Item name="inputPrice" noStyle>
+                <InputNumber min={0} step={0.1} addonBefore="输入" style={{ width: 170 }} />
+              </Form.Item>
+              <Form.Item name="outputPrice" noStyle>
+                <InputNumber min={0} step={0.1} addonBefore="输出" style={{ width: 170 }} />
+              </Form.Item>
+            </Space>
+          </Form.Item>
           <Form.Item name="apiKey" label="API Key" rules={[{ required: true }]} style={{ marginBottom: probeStatus === 'idle' ? undefined : 8 }}>
             <Input.Password placeholder="sk-..." onChange={resetProbe} />
           </Form.Item>
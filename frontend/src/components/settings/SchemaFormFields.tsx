@@ -0,0 +1,76 @@
+import { Form, Input, Select } from 'antd'
+import type { ChannelConfigSchema, ChannelFieldSchema } from '../../types/config'
+
+/**
+ * 根据通道配置 Schema 渲染表单项，字段值保存在 Form 的 config.<key> 下
+ */
+
+// Schema 中声明的默认值，切换通道类型或新建时填充
+export function schemaDefaults(schema?: ChannelConfigSchema): Record<string, string> {
+  const values: Record<string, string> = {}
+  for (const [key, field] of Object.entries(schema?.properties || {})) {
+    if (field.default !== undefined) values[key] = field.default
+  }
+  return values
+}
+
+// 当前取值下字段是否可见（x-showIf 的所有条件都满足）
+export function isFieldVisible(field: ChannelFieldSchema, values: Record<string, string | undefined>): boolean {
+  const cond = field['x-showIf']
+  if (!cond) return true
+  return Object.entries(cond).every(([key, expected]) => values[key] === expected)
+}
+
+// 字段的显示值（enum 取 enumNames 中对应的名称）
+export function displayValue(field: ChannelFieldSchema, value?: string): string {
+  if (!value) return '未配置'
+  const idx = field.enum?.indexOf(value) ?? -1
+  return idx >= 0 ? field.enumNames?.[idx] ?? value : value
+}
+
+interface Props {
+  schema: ChannelConfigSchema
+  channelId: string
+}
+
+export default function SchemaFormFields({ schema, channelId }: Props) {
+  const required = new Set(schema.required || [])
+  const describe = (text?: string) => text
+    ?.replace(/\{webhookPath\}/g, `/api/channels/${channelId}/webhook`)
+    .replace(/\{channelId\}/g, channelId)
+
+  return (
+    <>
+      {Object.entries(schema.properties).map(([key, field]) => (
+        // 依赖其他字段取值，配置变化时重新判断是否显示
+        <Form.Item key={key} noStyle shouldUpdate={(prev, next) => prev.config !== next.config}>
+          {({ getFieldValue }) => isFieldVisible(field, getFieldValue('config') || {}) && (
+            <Form.Item
+              name={['config', key]}
+              label={field.title || key}
+              rules={required.has(key) ? [{ required: true, message: `请输入 ${field.title || key}` }] : []}
+              extra={describe(field.description)}
+            >
+              {renderInput(field)}
+            </Form.Item>
+          )}
+        </Form.Item>
+      ))}
+    </>
+  )
+}
+
+function renderInput(field: ChannelFieldSchema) {
+  if (field.enum) {
+    return (
+      <Select>
+        {field.enum.map((value, i) => (
+          <Select.Option key={value} value={value}>{field.enumNames?.[i] ?? value}</Select.Option>
+        ))}
+      </Select>
+    )
+  }
+  if (field['x-multiline']) return <Input.TextArea autoSize={{ minRows: 2, maxRows: 8 }} placeholder={field['x-placeholder']} />
+  if (field.format === 'password') return <Input.Password placeholder={field['x-placeholder']} />
+  return <Input placeholder={field['x-placeholder']} />
+}
@@ -1,4 +1,4 @@
-import { useState } from 'react'
+import { useState, useEffect } from 'react'
 import {
   Button, List, Tag, Popconfirm, Modal, Form, Input, Space,
   Badge, message, Typography, Collapse, Tooltip
@@ -8,7 +8,7 @@ import {
   ApiOutlined, CheckCircleOutlined, CloseCircleOutlined, LoadingOutlined
 } from '@ant-design/icons'
 import { v4 as uuidv4 } from 'uuid'
-import type { SubAgentConfig } from '../../types/config'
+import type { SubAgentConfig, SubAgentStatus } from '../../types/config'
 
 const { Text } = Typography
 
@@ -17,11 +17,21 @@ interface ProbeResult {
   info?: {
     name: string
     description: string
-    capabilities: Array<{ name: string; description: string }>
+    // 声明了 input_schema 的能力注册为独立的结构化 tool
+    capabilities: Array<{ name: string; description: string; input_schema?: { type?: string; properties?: Record<string, unknown> } }>
   }
   error?: string
 }
 
+// 健康状态的说明：延迟、可用率与最近的错误
+function describeStatus(st: SubAgentStatus) {
+  const parts = []
+  if (st.latencyMs !== null) parts.push(`延迟 ${st.latencyMs}ms`)
+  if (st.uptime !== null) parts.push(`可用率 ${(st.uptime * 100).toFixed(st.uptime === 1 ? 0 : 1)}%`)
+  if (st.lastCheckedAt) parts.push(`检查于 ${new Date(st.lastCheckedAt).toLocaleTimeString()}`)
+  return parts.join(' · ')
+}
+
 interface Props {
   subAgents: SubAgentConfig[]
   onChange: (subAgents: SubAgentConfig[]) => void
@@ -33,6 +43,20 @@ export default function SubAgentsPanel({ subAgents, onChange }: Props) {
   const [form] = Form.useForm()
   const [probing, setProbing] = useState(false)
   const [probeResult, setProbeResult] = useState<ProbeResult | null>(null)
+  const [statusMap, setStatusMap] = useState<Record<string, SubAgentStatus>>({})
+
+  // 每 10 秒轮询一次健康状态
+  useEffect(() => {
+    const poll = () => {
+      fetch('/api/subagents/status')
+        .then(r => r.json())
+        .then(data => setStatusMap(data))
+        .catch(() => {})
+    }
+    poll()
+    const timer = setInterval(poll, 10000)
+    return () => clearInterval(timer)
+  }, [])
 
   const openAdd = () => {
     setEditing(null)
@@ -97,35 +121,50 @@ export default function SubAgentsPanel({ subAgents, onChange }: Props) {
       <List
         dataSource={subAgents}
         locale={{ emptyText: '暂无 SubAgent，点击下方添加' }}
-        renderItem={sa => (
-          <List.Item
-            actions={[
-              <Button type="text" size="small" icon={<EditOutlined />} onClick={() => openEdit(sa)} key="edit" />,
-              <Popconfirm title="确认删除？" onConfirm={() => onDelete(sa.id)} key="del">
-                <Button type="text" size="small" danger icon={<DeleteOutlined />} />
-              </Popconfirm>,
-            ]}
-          >
-            <List.Item.Meta
-              avatar={
-                <Badge
-                  status={sa.enabled ? 'success' : 'default'}
-                  onClick={() => onToggle(sa.id, !sa.enabled)}
-                  style={{ cursor: 'pointer' }}
-                />
-              }
-              title={
-                <Space>
-                  {sa.name}
-                  <Tag color={sa.enabled ? 'green' : 'default'}>
-                    {sa.enabled ? '已启用' : '已禁用'}
-                  </Tag>
-                </Space>
-              }
-              description={<Text type="secondary" style={{ fontSize: 12 }}>{sa.url}</Text>}
-            />
-          </List.Item>
-        )}
+        renderItem={sa => {
+          const st = sa.enabled ? statusMap[sa.id] : undefined
+          return (
+            <List.Item
+              actions={[
+                <Button type="text" size="small" icon={<EditOutlined />} onClick={() => openEdit(sa)} key="edit" />,
+                <Popconfirm title="确认删除？" onConfirm={() => onDelete(sa.id)} key="del">
+                  <Button type="text" size="small" danger icon={<DeleteOutlined />} />
+                </Popconfirm>,
+              ]}
+            >
+              <List.Item.Meta
+                avatar={
+                  <Badge
+                    status={!sa.enabled ? 'default' : st?.healthy === false ? 'error' : st?.healthy ? 'success' : 'processing'}
+                    onClick={() => onToggle(sa.id, !sa.enabled)}
+                    style={{ cursor: 'pointer' }}
+                  />
+                }
+                title={
+                  <Space>
+                    {sa.name}
+                    <Tag color={sa.enabled ? 'green' : 'default'}>
+                      {sa.enabled ? '已启用' : '已禁用'}
+                    </Tag>
+                    {st?.healthy === false && (
+                      <Tooltip title={st.lastError}>
+                        <Tag color="red">无法连通</Tag>
+                      </Tooltip>
+                    )}
+                  </Space>
+                }
+                description={
+                  <div>
+                    <Text type="secondary" style={{ fontSize: 12 }}>{sa.url}</Text>
+                    {st && st.healthy !== null && (
+                      <div><Text type="secondary" style={{ fontSize: 11 }}>{describeStatus(st)}</Text></div>
+                    )}
+                  </div>
+                }
+              />
+            </List.Item>
+          )
+        }}
       />
       <Button icon={<PlusOutlined />} onClick={openAdd} block style={{ marginTop: 8 }}>
         添加 SubAgent
@@ -178,7 +217,13 @@ export default function SubAgentsPanel({ subAgents, onChange }: Props) {
                       label: <Text style={{ fontSize: 12 }}>查看 {probeResult.info!.capabilities.length} 项能力</Text>,
                       children: probeResult.info!.capabilities.map(c => (
                         <div key={c.name} style={{ fontSize: 12, marginBottom: 2 }}>
-                          <Text strong>{c.name}</Text>: {c.description}
+                          <Text strong>{c.name}</Text>
+                          {c.input_schema?.type === 'object' && (
+                            <Tooltip title={`参数：${Object.keys(c.input_schema.properties || {}).join('、') || '无'}`}>
+                              <Tag color="purple" style={{ fontSize: 11, marginInline: 4, lineHeight: '16px' }}>结构化</Tag>
+                            </Tooltip>
+                          )}
+                          : {c.description}
                         </div>
                       ))
                     }]} />
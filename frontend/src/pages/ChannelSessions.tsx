@@ -0,0 +1,231 @@
+import { useCallback, useEffect, useState } from 'react'
+import {
+  Layout, Typography, Button, Row, Col, Card, Divider, List, Tag,
+  Space, Empty, Popconfirm, Spin, Image, message
+} from 'antd'
+import {
+  ArrowLeftOutlined, ReloadOutlined, ClearOutlined, StopOutlined,
+  CheckCircleOutlined, RobotOutlined, UserOutlined, PaperClipOutlined
+} from '@ant-design/icons'
+import { useNavigate, useParams } from 'react-router-dom'
+import ReactMarkdown from 'react-markdown'
+import type { AppConfig, ChannelSession, ChannelSessionSummary } from '../types/config'
+
+const { Header, Content } = Layout
+const { Title, Text } = Typography
+
+async function fetchJSON<T>(url: string, init?: RequestInit): Promise<T> {
+  const res = await fetch(url, init)
+  if (!res.ok) throw new Error(`HTTP ${res.status}`)
+  return res.json()
+}
+
+const api = {
+  list: (channelId: string) =>
+    fetchJSON<ChannelSessionSummary[]>(`/api/channels/${channelId}/sessions`),
+  get: (channelId: string, chatId: string) =>
+    fetchJSON<ChannelSession>(`/api/channels/${channelId}/sessions/${encodeURIComponent(chatId)}`),
+  reset: (channelId: string, chatId: string) =>
+    fetchJSON<ChannelSession>(`/api/channels/${channelId}/sessions/${encodeURIComponent(chatId)}/reset`, { method: 'POST' }),
+  setBlocked: (channelId: string, chatId: string, blocked: boolean) =>
+    fetchJSON<ChannelSession>(`/api/channels/${channelId}/sessions/${encodeURIComponent(chatId)}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ blocked }),
+    }),
+}
+
+function formatTime(ts: number) {
+  return new Date(ts).toLocaleString('zh-CN', { hour12: false })
+}
+
+/**
+ * 通道会话管理：查看通道下各会话（群 / 私聊 / thread）的聊天记录，清空历史或屏蔽会话
+ */
+export default function ChannelSessions() {
+  const navigate = useNavigate()
+  const { id: channelId = '' } = useParams()
+  const [channelName, setChannelName] = useState('')
+  const [sessions, setSessions] = useState<ChannelSessionSummary[]>([])
+  const [loading, setLoading] = useState(true)
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  const [session, setSession] = useState<ChannelSession | null>(null)
+
+  useEffect(() => {
+    fetchJSON<AppConfig>('/api/settings')
+      .then(config => setChannelName(config.channels.find(c => c.id === channelId)?.name || channelId))
+      .catch(() => setChannelName(channelId))
+  }, [channelId])
+
+  const refreshList = useCallback(() => {
+    setLoading(true)
+    api.list(channelId)
+      .then(setSessions)
+      .catch(() => message.error('加载会话列表失败'))
+      .finally(() => setLoading(false))
+  }, [channelId])
+
+  useEffect(() => { refreshList() }, [refreshList])
+
+  useEffect(() => {
+    if (!selectedId) {
+      setSession(null)
+      return
+    }
+    let cancelled = false
+    api.get(channelId, selectedId)
+      .then(s => { if (!cancelled) setSession(s) })
+      .catch(() => message.error('加载聊天记录失败'))
+    return () => { cancelled = true }
+  }, [channelId, selectedId])
+
+  // 操作后同步详情与列表中的摘要
+  const applyUpdate = (updated: ChannelSession) => {
+    setSession(updated)
+    refreshList()
+  }
+
+  const onReset = async () => {
+    if (!session) return
+    try {
+      applyUpdate(await api.reset(channelId, session.chatId))
+      message.success('已清空历史')
+    } catch {
+      message.error('操作失败')
+    }
+  }
+
+  const onToggleBlocked = async () => {
+    if (!session) return
+    try {
+      applyUpdate(await api.setBlocked(channelId, session.chatId, !session.blocked))
+      message.success(session.blocked ? '已解除屏蔽' : '已屏蔽，该会话的消息将不再回复')
+    } catch {
+      message.error('操作失败')
+    }
+  }
+
+  return (
+    <Layout style={{ minHeight: '100vh', background: '#f0f2f5' }}>
+      <Header style={{ background: '#fff', padding: '0 24px', display: 'flex', alignItems: 'center', gap: 16, boxShadow: '0 1px 4px rgba(0,0,0,0.08)' }}>
+        <Button type="text" icon={<ArrowLeftOutlined />} onClick={() => navigate('/settings')}>
+          返回设置
+        </Button>
+        <Divider type="vertical" />
+        <Title level={5} style={{ margin: 0 }}>{channelName} · 会话</Title>
+      </Header>
+
+      <Content style={{ padding: 24 }}>
+        <Row gutter={[16, 16]}>
+          <Col xs={24} md={8}>
+            <Card
+              title={`会话 (${sessions.length})`}
+              size="small"
+              extra={<Button type="text" size="small" icon={<ReloadOutlined />} onClick={refreshList} />}
+              styles={{ body: { height: 'calc(100vh - 190px)', overflowY: 'auto', padding: 0 } }}
+            >
+              <Spin spinning={loading}>
+                <List
+                  dataSource={sessions}
+                  locale={{ emptyText: '暂无会话' }}
+                  renderItem={item => (
+                    <List.Item
+                      onClick={() => setSelectedId(item.chatId)}
+                      style={{
+                        cursor: 'pointer', padding: '10px 16px',
+                        background: item.chatId === selectedId ? '#e6f4ff' : undefined,
+                      }}
+                    >
+                      <List.Item.Meta
+                        title={
+                          <Space size={6}>
+                            <Text style={{ fontSize: 13 }} ellipsis>{item.chatId}</Text>
+                            {item.blocked && <Tag color="red" style={{ fontSize: 11 }}>已屏蔽</Tag>}
+                          </Space>
+                        }
+                        description={
+                          <Space direction="vertical" size={0} style={{ width: '100%' }}>
+                            <Text type="secondary" style={{ fontSize: 12 }} ellipsis>
+                              {item.lastMessage || '（无消息）'}
+                            </Text>
+                            <Text type="secondary" style={{ fontSize: 11 }}>
+                              {item.messageCount} 条消息 · {formatTime(item.updatedAt)}
+                            </Text>
+                          </Space>
+                        }
+                      />
+                    </List.Item>
+                  )}
+                />
+              </Spin>
+            </Card>
+          </Col>
+
+          <Col xs={24} md={16}>
+            <Card
+              size="small"
+              title={session ? session.chatId : '聊天记录'}
+              extra={session && (
+                <Space>
+                  <Popconfirm title="确认清空该会话的历史？" onConfirm={onReset}>
+                    <Button size="small" icon={<ClearOutlined />}>清空历史</Button>
+                  </Popconfirm>
+                  <Button
+                    size="small"
+                    danger={!session.blocked}
+                    icon={session.blocked ? <CheckCircleOutlined /> : <StopOutlined />}
+                    onClick={onToggleBlocked}
+                  >
+                    {session.blocked ? '解除屏蔽' : '屏蔽'}
+                  </Button>
+                </Space>
+              )}
+              styles={{ body: { height: 'calc(100vh - 190px)', overflowY: 'auto', background: '#fafafa' } }}
+            >
+              {!session ? (
+                <Empty description="选择左侧会话查看聊天记录" style={{ marginTop: 80 }} />
+              ) : session.messages.length === 0 ? (
+                <Empty description="暂无消息" style={{ marginTop: 80 }} />
+              ) : (
+                session.messages.map((msg, i) => {
+                  const isUser = msg.role === 'user'
+                  return (
+                    <div key={i} style={{ marginBottom: 16 }}>
+                      <Space size={6} style={{ marginBottom: 4 }}>
+                        {isUser ? <UserOutlined /> : <RobotOutlined style={{ color: '#1677ff' }} />}
+                        <Text strong style={{ fontSize: 12 }}>{isUser ? '用户' : '助手'}</Text>
+                        <Text type="secondary" style={{ fontSize: 11 }}>{formatTime(msg.createdAt)}</Text>
+                      </Space>
+                      <div style={{
+                        padding: '8px 12px', background: '#fff', borderRadius: 8,
+                        boxShadow: '0 1px 3px rgba(0,0,0,0.06)', fontSize: 14, lineHeight: 1.7,
+                      }}>
+                        {!!msg.images?.length && (
+                          <Space wrap size={6} style={{ marginBottom: msg.content ? 6 : 0 }}>
+                            {msg.images.map(id => (
+                              <Image key={id} src={`/api/images/${id}`} width={96} height={96} style={{ objectFit: 'cover', borderRadius: 6 }} />
+                            ))}
+                          </Space>
+                        )}
+                        {!!msg.files?.length && (
+                          <Space wrap size={6} style={{ marginBottom: msg.content ? 6 : 0 }}>
+                            {msg.files.map(name => <Tag key={name} icon={<PaperClipOutlined />}>{name}</Tag>)}
+                          </Space>
+                        )}
+                        {isUser ? (
+                          <div style={{ whiteSpace: 'pre-wrap' }}>{msg.content}</div>
+                        ) : (
+                          <ReactMarkdown>{msg.content}</ReactMarkdown>
+                        )}
+                      </div>
+                    </div>
+                  )
+                })
+              )}
+            </Card>
+          </Col>
+        </Row>
+      </Content>
+    </Layout>
+  )
+}
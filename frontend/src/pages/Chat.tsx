@@ -1,41 +1,125 @@
 import { useState, useRef, useEffect, useCallback } from 'react'
 import {
   Layout, Input, Button, Typography, Space, Tooltip, Empty,
-  Collapse, Tag, Spin, Alert
+  Collapse, Tag, Spin, Alert, Select, Image, Badge, message
 } from 'antd'
 import {
-  SendOutlined, SettingOutlined, PlusOutlined,
-  RobotOutlined, UserOutlined, ApiOutlined, DeleteOutlined
+  SendOutlined, SettingOutlined, PlusOutlined, StopOutlined,
+  RobotOutlined, UserOutlined, ApiOutlined, DeleteOutlined, EditOutlined,
+  ReloadOutlined, LeftOutlined, RightOutlined, LoadingOutlined, BulbOutlined,
+  PictureOutlined, CloseCircleFilled, PaperClipOutlined
 } from '@ant-design/icons'
 import { useNavigate } from 'react-router-dom'
 import ReactMarkdown from 'react-markdown'
 import { v4 as uuidv4 } from 'uuid'
-import type { ChatMessage, Conversation, ToolCallInfo } from '../types/config'
+import type {
+  ChatMessage, Conversation, ConversationFile, ConversationSummary, ModelConfig, SubAgentConfig, SubAgentStatus,
+  ToolCallInfo
+} from '../types/config'
 
 const { Sider, Content, Header } = Layout
 const { Text } = Typography
 const { TextArea } = Input
 
-const STORAGE_KEY = 'willknow_conversations'
+async function fetchJSON<T>(url: string, init?: RequestInit): Promise<T> {
+  const res = await fetch(url, init)
+  if (!res.ok) throw new Error(`HTTP ${res.status}`)
+  return res.json()
+}
 
-function loadConversations(): Conversation[] {
-  try {
-    return JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]')
-  } catch {
-    return []
-  }
+const api = {
+  list: () => fetchJSON<ConversationSummary[]>('/api/conversations'),
+  get: (id: string) => fetchJSON<Conversation>(`/api/conversations/${id}`),
+  create: () => fetchJSON<Conversation>('/api/conversations', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: '{}',
+  }),
+  update: (id: string, patch: { title?: string; currentLeafId?: string | null; modelId?: string }) =>
+    fetchJSON<Conversation>(`/api/conversations/${id}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(patch),
+    }),
+  remove: (id: string) => fetchJSON<{ ok: boolean }>(`/api/conversations/${id}`, { method: 'DELETE' }),
+  uploadImage: (file: File) => fetchJSON<{ id: string }>('/api/images', {
+    method: 'POST',
+    headers: { 'Content-Type': file.type },
+    body: file,
+  }),
+  // 以 octet-stream 上传，避免 .json 等文件被后端当作请求参数解析
+  uploadFile: (convId: string, file: File) =>
+    fetchJSON<ConversationFile>(`/api/conversations/${convId}/files?name=${encodeURIComponent(file.name)}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/octet-stream' },
+      body: file,
+    }),
+  removeFile: (convId: string, name: string) =>
+    fetchJSON<{ ok: boolean }>(`/api/conversations/${convId}/files/${encodeURIComponent(name)}`, { method: 'DELETE' }),
+  importLegacy: (conv: unknown) => fetchJSON<ConversationSummary>('/api/conversations/import', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(conv),
+  }),
+}
+
+// 旧版把对话保存在浏览器 localStorage 中
+const LEGACY_STORAGE_KEY = 'willknow_conversations'
+
+/**
+ * 将旧版 localStorage 中的对话逐个导入服务端，全部成功后清除，返回导入的数量
+ * 导入失败时保留本地数据，下次打开页面重试（服务端跳过已导入的 ID）
+ */
+async function importLegacyConversations() {
+  const raw = localStorage.getItem(LEGACY_STORAGE_KEY)
+  if (!raw) return 0
+  let convs: unknown
+  try { convs = JSON.parse(raw) } catch { return 0 }
+  if (!Array.isArray(convs)) return 0
+  for (const conv of convs) await api.importLegacy(conv)
+  localStorage.removeItem(LEGACY_STORAGE_KEY)
+  return convs.length
 }
 
-function saveConversations(convs: Conversation[]) {
-  localStorage.setItem(STORAGE_KEY, JSON.stringify(convs))
+// 与后端 services/images.js 保持一致
+const IMAGE_TYPES = ['image/png', 'image/jpeg', 'image/gif', 'image/webp']
+const MAX_IMAGE_BYTES = 5 * 1024 * 1024
+
+// 与后端 services/files.js 保持一致
+const MAX_FILE_BYTES = 20 * 1024 * 1024
+
+function imageURL(id: string) {
+  return `/api/images/${id}`
 }
 
-function newConversation(): Conversation {
-  return { id: uuidv4(), title: '新对话', messages: [], createdAt: Date.now() }
+function fileURL(convId: string, name: string) {
+  return `/api/conversations/${convId}/files/${encodeURIComponent(name)}`
 }
 
-// 工具调用折叠展示组件
-function ToolCallCard({ info }: { info: ToolCallInfo }) {
+// 附件标签，点击下载
+function FileTag({ convId, name, onClose }: { convId: string; name: string; onClose?: () => void }) {
+  return (
+    <Tag
+      icon={<PaperClipOutlined />}
+      closable={!!onClose}
+      onClose={onClose}
+      style={{ marginInlineEnd: 0 }}
+    >
+      <a href={fileURL(convId, name)} download={name}>{name}</a>
+    </Tag>
+  )
+}
+
+function toSummary(c: Conversation): ConversationSummary {
+  return { id: c.id, title: c.title, createdAt: c.createdAt, updatedAt: c.updatedAt, messageCount: c.messages.length }
+}
+
+function formatDuration(ms: number) {
+  return ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(1)}s`
+}
+
+// 工具调用折叠展示组件；running 表示该回答仍在生成，尚无结果的调用显示为执行中
+function ToolCallCard({ info, running }: { info: ToolCallInfo; running: boolean }) {
   return (
     <Collapse
       size="small"
@@ -49,7 +133,16 @@ function ToolCallCard({ info }: { info: ToolCallInfo }) {
             <Text style={{ fontSize: 12 }} type="secondary">
               调用 <Text strong style={{ fontSize: 12 }}>{info.agentName}</Text>
             </Text>
-            {info.result !== undefined && <Tag color="green" style={{ fontSize: 11, marginLeft: 4 }}>已完成</Tag>}
+            {info.result === undefined && running && info.progress && (
+              <Text type="secondary" ellipsis style={{ fontSize: 12, maxWidth: 240 }}>· {info.progress}</Text>
+            )}
+            {info.result !== undefined ? (
+              <Tag color="green" style={{ fontSize: 11, marginLeft: 4 }}>
+                已完成{info.durationMs !== undefined && ` · ${formatDuration(info.durationMs)}`}
+              </Tag>
+            ) : running && (
+              <Tag icon={<LoadingOutlined />} color="processing" style={{ fontSize: 11, marginLeft: 4 }}>执行中</Tag>
+            )}
           </Space>
         ),
         children: (
@@ -58,11 +151,16 @@ function ToolCallCard({ info }: { info: ToolCallInfo }) {
               <Text type="secondary">指令：</Text>
               <Text>{info.input}</Text>
             </div>
-            {info.result !== undefined && (
+            {info.result !== undefined ? (
               <div>
                 <Text type="secondary">结果：</Text>
                 <Text>{info.result}</Text>
               </div>
+            ) : running && info.partial && (
+              <div>
+                <Text type="secondary">输出中：</Text>
+                <Text>{info.partial}</Text>
+              </div>
             )}
           </div>
         )
@@ -71,9 +169,86 @@ function ToolCallCard({ info }: { info: ToolCallInfo }) {
   )
 }
 
+// 思考过程折叠展示；生成过程中挂载时默认展开
+function ThinkingBlock({ text, active }: { text: string; active: boolean }) {
+  return (
+    <Collapse
+      size="small"
+      ghost
+      defaultActiveKey={active ? ['1'] : []}
+      style={{ marginBottom: 4, background: '#fafafa', borderRadius: 6, border: '1px solid #f0f0f0' }}
+      items={[{
+        key: '1',
+        label: (
+          <Space size={4}>
+            <BulbOutlined style={{ color: '#faad14' }} />
+            <Text style={{ fontSize: 12 }} type="secondary">{active ? '思考中...' : '思考过程'}</Text>
+            {active && <LoadingOutlined style={{ fontSize: 12, color: '#8c8c8c' }} />}
+          </Space>
+        ),
+        children: (
+          <div style={{ fontSize: 12, lineHeight: 1.6, color: '#8c8c8c', whiteSpace: 'pre-wrap', maxHeight: 320, overflowY: 'auto' }}>
+            {text}
+          </div>
+        ),
+      }]}
+    />
+  )
+}
+
+// ─── 消息树辅助 ──────────────────────────────────────────────────────────────
+
+// 从 currentLeafId 回溯到根，得到当前激活分支上的消息
+function getBranch(conv: Conversation): ChatMessage[] {
+  const byId = new Map(conv.messages.map(m => [m.id, m]))
+  const path: ChatMessage[] = []
+  let node = conv.currentLeafId ? byId.get(conv.currentLeafId) : undefined
+  while (node) {
+    path.unshift(node)
+    node = node.parentId ? byId.get(node.parentId) : undefined
+  }
+  return path
+}
+
+function getSiblings(conv: Conversation, msg: ChatMessage): ChatMessage[] {
+  return conv.messages.filter(m => m.parentId === msg.parentId)
+}
+
+// 切换到某条消息时，沿最新的子消息一路向下找到分支末端
+function findLeaf(conv: Conversation, id: string): string {
+  let leaf = id
+  for (;;) {
+    const children = conv.messages.filter(m => m.parentId === leaf)
+    if (children.length === 0) return leaf
+    leaf = children[children.length - 1].id
+  }
+}
+
+interface BubbleProps {
+  convId: string
+  msg: ChatMessage
+  live: boolean                   // 正在流式生成的消息
+  siblingIndex: number
+  siblingCount: number
+  disabled: boolean
+  onSwitch: (delta: number) => void
+  onEdit: (text: string) => void
+  onRegenerate: () => void
+}
+
 // 消息气泡
-function MessageBubble({ msg }: { msg: ChatMessage }) {
+function MessageBubble({ convId, msg, live, siblingIndex, siblingCount, disabled, onSwitch, onEdit, onRegenerate }: BubbleProps) {
   const isUser = msg.role === 'user'
+  const [editing, setEditing] = useState(false)
+  const [draft, setDraft] = useState('')
+
+  const submitEdit = () => {
+    const text = draft.trim()
+    if (!text && !msg.images?.length && !msg.files?.length) return
+    setEditing(false)
+    if (text !== msg.content) onEdit(text)
+  }
+
   return (
     <div style={{
       display: 'flex', flexDirection: isUser ? 'row-reverse' : 'row',
@@ -89,12 +264,50 @@ function MessageBubble({ msg }: { msg: ChatMessage }) {
       </div>
 
       {/* 内容 */}
-      <div style={{ maxWidth: '72%' }}>
+      <div style={{ maxWidth: '72%', minWidth: editing ? '50%' : undefined }}>
+        {/* 思考过程：开始输出正文或调用工具后不再显示为思考中 */}
+        {msg.thinking && (
+          <ThinkingBlock text={msg.thinking} active={live && !msg.content && !msg.toolCalls?.length} />
+        )}
+
         {/* 工具调用信息 */}
-        {msg.toolCalls && msg.toolCalls.map((tc, i) => <ToolCallCard key={i} info={tc} />)}
+        {msg.toolCalls && msg.toolCalls.map((tc, i) => <ToolCallCard key={tc.id ?? i} info={tc} running={live} />)}
+
+        {/* 用户发送的图片 */}
+        {!!msg.images?.length && (
+          <div style={{ display: 'flex', flexWrap: 'wrap', gap: 6, marginBottom: 6, justifyContent: isUser ? 'flex-end' : 'flex-start' }}>
+            <Image.PreviewGroup>
+              {msg.images.map(id => (
+                <Image key={id} src={imageURL(id)} width={120} height={120} style={{ objectFit: 'cover', borderRadius: 8 }} />
+              ))}
+            </Image.PreviewGroup>
+          </div>
+        )}
+
+        {/* 用户上传的附件 */}
+        {!!msg.files?.length && (
+          <div style={{ display: 'flex', flexWrap: 'wrap', gap: 6, marginBottom: 6, justifyContent: isUser ? 'flex-end' : 'flex-start' }}>
+            {msg.files.map(name => <FileTag key={name} convId={convId} name={name} />)}
+          </div>
+        )}
 
         {/* 文字内容 */}
-        {msg.content && (
+        {editing ? (
+          <div>
+            <TextArea
+              value={draft}
+              onChange={e => setDraft(e.target.value)}
+              autoSize={{ minRows: 2, maxRows: 8 }}
+              autoFocus
+            />
+            <Space style={{ marginTop: 6, display: 'flex', justifyContent: 'flex-end' }}>
+              <Button size="small" onClick={() => setEditing(false)}>取消</Button>
+              <Button size="small" type="primary" onClick={submitEdit} disabled={(!draft.trim() && !msg.images?.length && !msg.files?.length) || disabled}>
+                保存并发送
+              </Button>
+            </Space>
+          </div>
+        ) : msg.content && (
           <div style={{
             padding: '10px 14px',
             background: isUser ? '#1677ff' : '#fff',
@@ -110,6 +323,64 @@ function MessageBubble({ msg }: { msg: ChatMessage }) {
             )}
           </div>
         )}
+
+        {msg.interrupted && (
+          <Tag style={{ fontSize: 11, marginTop: 4 }}>已停止生成</Tag>
+        )}
+
+        {msg.error && (
+          <Text type="danger" style={{ display: 'block', fontSize: 13, marginTop: msg.content ? 4 : 0 }}>
+            错误: {msg.error}
+          </Text>
+        )}
+
+        {/* 操作栏：分支切换 + 编辑 / 重新生成 + 回答的模型 */}
+        {!editing && (
+          <Space size={0} style={{ marginTop: 2, display: 'flex', justifyContent: isUser ? 'flex-end' : 'flex-start' }}>
+            {siblingCount > 1 && (
+              <>
+                <Button
+                  type="text" size="small" icon={<LeftOutlined />}
+                  disabled={disabled || siblingIndex === 0}
+                  onClick={() => onSwitch(-1)}
+                />
+                <Text type="secondary" style={{ fontSize: 12 }}>{siblingIndex + 1} / {siblingCount}</Text>
+                <Button
+                  type="text" size="small" icon={<RightOutlined />}
+                  disabled={disabled || siblingIndex === siblingCount - 1}
+                  onClick={() => onSwitch(1)}
+                />
+              </>
+            )}
+            {isUser ? (
+              <Tooltip title="编辑">
+                <Button
+                  type="text" size="small" icon={<EditOutlined />} disabled={disabled}
+                  onClick={() => { setDraft(msg.content); setEditing(true) }}
+                />
+              </Tooltip>
+            ) : (
+              <Tooltip title="重新生成">
+                <Button type="text" size="small" icon={<ReloadOutlined />} disabled={disabled} onClick={onRegenerate} />
+              </Tooltip>
+            )}
+            {msg.modelName && (
+              <Text type="secondary" style={{ fontSize: 12, marginLeft: 4 }}>{msg.modelName}</Text>
+            )}
+            {msg.usage && (
+              <Tooltip title={`输入 ${msg.usage.inputTokens} / 输出 ${msg.usage.outputTokens} tokens`}>
+                <Text type="secondary" style={{ fontSize: 12, marginLeft: 4 }}>
+                  · {msg.usage.inputTokens + msg.usage.outputTokens} tokens
+                </Text>
+              </Tooltip>
+            )}
+            {msg.fallback && (
+              <Tooltip title={msg.fallbackReason ? `主模型调用失败：${msg.fallbackReason}` : '主模型调用失败'}>
+                <Tag color="orange" style={{ fontSize: 11, marginLeft: 6 }}>备用模型</Tag>
+              </Tooltip>
+            )}
+          </Space>
+        )}
       </div>
     </div>
   )
@@ -117,86 +388,203 @@ function MessageBubble({ msg }: { msg: ChatMessage }) {
 
 export default function Chat() {
   const navigate = useNavigate()
-  const [conversations, setConversations] = useState<Conversation[]>(loadConversations)
-  const [currentId, setCurrentId] = useState<string | null>(() => loadConversations()[0]?.id || null)
+  const [conversations, setConversations] = useState<ConversationSummary[]>([])
+  const [currentId, setCurrentId] = useState<string | null>(null)
+  const [current, setCurrent] = useState<Conversation | null>(null)
+  const [renamingId, setRenamingId] = useState<string | null>(null)
+  const [renameText, setRenameText] = useState('')
   const [input, setInput] = useState('')
   const [streaming, setStreaming] = useState(false)
   const [hasModels, setHasModels] = useState<boolean | null>(null)
+  const [models, setModels] = useState<ModelConfig[]>([])
+  const [subAgents, setSubAgents] = useState<SubAgentConfig[]>([])
+  const [subAgentStatus, setSubAgentStatus] = useState<Record<string, SubAgentStatus>>({})
+  // 尚未创建对话时选择的模型，发送首条消息时带上
+  const [draftModelId, setDraftModelId] = useState<string | undefined>()
+  // 待发送的图片 ID（已上传）
+  const [pendingImages, setPendingImages] = useState<string[]>([])
+  // 待发送的附件（已上传到所属对话，只在该对话中显示和发送）
+  const [pendingFiles, setPendingFiles] = useState<{ convId: string; name: string }[]>([])
+  const [uploading, setUploading] = useState(false)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const attachInputRef = useRef<HTMLInputElement>(null)
   const bottomRef = useRef<HTMLDivElement>(null)
   const abortRef = useRef<AbortController | null>(null)
 
-  const current = conversations.find(c => c.id === currentId) || null
-
   // 检查是否已配置模型
   useEffect(() => {
     fetch('/api/settings')
       .then(r => r.json())
-      .then(data => setHasModels((data.models?.length ?? 0) > 0))
+      .then(data => {
+        setModels(data.models || [])
+        setHasModels((data.models?.length ?? 0) > 0)
+        setSubAgents((data.subAgents || []).filter((sa: SubAgentConfig) => sa.enabled))
+      })
       .catch(() => setHasModels(true)) // 请求失败时不阻止使用
   }, [])
 
+  // 每 30 秒刷新一次 SubAgent 健康状态，无法连通的 SubAgent 不会出现在对话的工具列表中
   useEffect(() => {
-    saveConversations(conversations)
-  }, [conversations])
+    const poll = () => {
+      fetch('/api/subagents/status')
+        .then(r => r.json())
+        .then(data => setSubAgentStatus(data))
+        .catch(() => {})
+    }
+    poll()
+    const timer = setInterval(poll, 30000)
+    return () => clearInterval(timer)
+  }, [])
+  const onlineSubAgents = subAgents.filter(sa => subAgentStatus[sa.id]?.healthy).length
+
+  // 加载对话列表（先导入旧版本地对话），默认打开最近一次对话
+  useEffect(() => {
+    importLegacyConversations()
+      .then(count => { if (count > 0) message.success(`已导入 ${count} 个本地对话`) })
+      .catch(err => message.error(`导入本地对话失败: ${(err as Error).message}，本地数据已保留，刷新页面重试`))
+      .then(() => api.list())
+      .then(list => {
+        setConversations(list)
+        setCurrentId(id => id ?? list[0]?.id ?? null)
+      })
+      .catch(() => {})
+  }, [])
+
+  // 切换对话时从服务端加载完整消息
+  useEffect(() => {
+    if (!currentId) { setCurrent(null); return }
+    if (current?.id === currentId) return
+    let cancelled = false
+    api.get(currentId)
+      .then(conv => { if (!cancelled) setCurrent(conv) })
+      .catch(() => { if (!cancelled) setCurrent(null) })
+    return () => { cancelled = true }
+  }, [currentId])
 
   useEffect(() => {
     bottomRef.current?.scrollIntoView({ behavior: 'smooth' })
   }, [current?.messages])
 
-  const updateConversation = useCallback((id: string, updater: (c: Conversation) => Conversation) => {
-    setConversations(prev => prev.map(c => c.id === id ? updater(c) : c))
+  // 仅当该对话仍是当前对话时才更新（流式输出期间用户可能已切换）
+  const updateCurrent = useCallback((id: string, updater: (c: Conversation) => Conversation) => {
+    setCurrent(c => c && c.id === id ? updater(c) : c)
   }, [])
 
-  const startNew = () => {
-    const conv = newConversation()
-    setConversations(prev => [conv, ...prev])
+  const upsertSummary = useCallback((summary: ConversationSummary) => {
+    setConversations(prev => [summary, ...prev.filter(c => c.id !== summary.id)])
+  }, [])
+
+  const createConversation = async () => {
+    const conv = await api.create()
+    upsertSummary(toSummary(conv))
+    setCurrent(conv)
     setCurrentId(conv.id)
+    return conv
+  }
+
+  const startNew = () => {
+    createConversation().catch(err => message.error(`新建对话失败: ${(err as Error).message}`))
   }
 
-  const deleteConv = (id: string) => {
+  const deleteConv = async (id: string) => {
+    try {
+      await api.remove(id)
+    } catch (err) {
+      message.error(`删除失败: ${(err as Error).message}`)
+      return
+    }
     setConversations(prev => prev.filter(c => c.id !== id))
     if (currentId === id) setCurrentId(null)
   }
 
-  const send = async () => {
-    const text = input.trim()
-    if (!text || streaming) return
-
-    let convId = currentId
-    if (!convId) {
-      const conv = newConversation()
-      setConversations(prev => [conv, ...prev])
-      setCurrentId(conv.id)
-      convId = conv.id
+  const startRename = (c: ConversationSummary) => {
+    setRenamingId(c.id)
+    setRenameText(c.title)
+  }
+
+  const commitRename = async () => {
+    const id = renamingId
+    const title = renameText.trim()
+    setRenamingId(null)
+    if (!id || !title || conversations.find(c => c.id === id)?.title === title) return
+    try {
+      const conv = await api.update(id, { title })
+      setConversations(prev => prev.map(c => c.id === id ? { ...c, title: conv.title } : c))
+      updateCurrent(id, c => ({ ...c, title: conv.title }))
+    } catch (err) {
+      message.error(`重命名失败: ${(err as Error).message}`)
     }
+  }
+
+  // 当前选择的模型：对话记录的模型（已删除时回退到默认模型）
+  const currentFiles = pendingFiles.filter(f => f.convId === current?.id)
 
-    const userMsg: ChatMessage = { id: uuidv4(), role: 'user', content: text }
-    const assistantMsg: ChatMessage = { id: uuidv4(), role: 'assistant', content: '', toolCalls: [] }
+  const pickedModelId = current ? current.modelId : draftModelId
+  const selectedModelId = models.some(m => m.id === pickedModelId)
+    ? pickedModelId
+    : (models.find(m => m.isDefault) || models[0])?.id
 
-    // 更新对话标题（取第一条消息前 20 字）
-    updateConversation(convId, c => ({
+  const changeModel = (modelId: string) => {
+    if (!current) {
+      setDraftModelId(modelId)
+      return
+    }
+    const convId = current.id
+    updateCurrent(convId, c => ({ ...c, modelId }))
+    api.update(convId, { modelId })
+      .catch(err => message.error(`切换模型失败: ${(err as Error).message}`))
+  }
+
+  /**
+   * 发起一轮对话并处理 SSE 流
+   * - 普通发送 / 编辑：text 挂在 parentId 之下（编辑时为原消息的 parentId，形成兄弟分支）
+   * - 重新生成：不带 text，parentId 为要重新回答的用户消息
+   * modelId 为空时后端使用对话记录的模型或默认模型；attachments 为用户消息附带的图片 ID 和附件名
+   */
+  const runTurn = async (
+    convId: string, parentId: string | null, text: string | null, modelId?: string,
+    { images = [], files = [] }: { images?: string[]; files?: string[] } = {},
+  ) => {
+    // 本地占位消息，收到 conversation 事件后替换为服务端分配的 ID
+    const userMsg: ChatMessage | null = text !== null
+      ? {
+        id: uuidv4(), parentId, role: 'user', content: text,
+        ...(images.length ? { images } : {}), ...(files.length ? { files } : {}),
+      }
+      : null
+    let assistantId = uuidv4()
+    const assistantMsg: ChatMessage = {
+      id: assistantId, parentId: userMsg ? userMsg.id : parentId, role: 'assistant', content: '', toolCalls: [],
+    }
+
+    updateCurrent(convId, c => ({
       ...c,
-      title: c.messages.length === 0 ? text.slice(0, 20) : c.title,
-      messages: [...c.messages, userMsg, assistantMsg],
+      title: c.messages.length === 0 && userMsg ? (text || files[0] || '图片').slice(0, 20) : c.title,
+      messages: [...c.messages, ...(userMsg ? [userMsg] : []), assistantMsg],
+      currentLeafId: assistantId,
     }))
 
-    setInput('')
     setStreaming(true)
 
     const ctrl = new AbortController()
     abortRef.current = ctrl
 
-    // 构建传给后端的历史（不含刚加入的 assistant 占位）
-    const history = (conversations.find(c => c.id === convId)?.messages || []).map(m => ({
-      role: m.role,
-      content: m.content,
-    }))
+    const updateAssistant = (updater: (m: ChatMessage) => ChatMessage) => {
+      updateCurrent(convId, c => ({
+        ...c,
+        messages: c.messages.map(m => m.id === assistantId ? updater(m) : m),
+      }))
+    }
 
     try {
       const res = await fetch('/api/chat', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ message: text, conversationId: convId, history }),
+        body: JSON.stringify(
+          userMsg
+            ? { message: text, images, files, conversationId: convId, parentId, modelId }
+            : { conversationId: convId, parentId, regenerate: true, modelId }
+        ),
         signal: ctrl.signal,
       })
 
@@ -219,65 +607,224 @@ export default function Chat() {
         for (const line of lines) {
           if (!line.startsWith('data: ')) continue
           const data = line.slice(6)
-          let event: { type: string; content?: string; tool?: string; agentName?: string; input?: string; message?: string }
+          let event: {
+            type: string; content?: string; tool?: string; agentName?: string; input?: string; message?: string
+            conversationId?: string; title?: string; userMessageId?: string; assistantMessageId?: string
+            modelId?: string; modelName?: string; fallback?: boolean; reason?: string
+            inputTokens?: number; outputTokens?: number; cost?: number
+            toolUseId?: string; durationMs?: number; kind?: string
+          }
           try { event = JSON.parse(data) } catch { continue }
 
-          if (event.type === 'text') {
-            updateConversation(convId!, c => ({
+          if (event.type === 'conversation') {
+            const idMap: Record<string, string> = {}
+            if (userMsg && event.userMessageId) idMap[userMsg.id] = event.userMessageId
+            if (event.assistantMessageId) idMap[assistantId] = event.assistantMessageId
+            assistantId = idMap[assistantId] ?? assistantId
+            const remap = (id: string | null) => (id && idMap[id]) || id
+            updateCurrent(convId, c => ({
               ...c,
-              messages: c.messages.map(m =>
-                m.id === assistantMsg.id ? { ...m, content: m.content + (event.content || '') } : m
-              ),
+              title: event.title || c.title,
+              messages: c.messages.map(m => ({ ...m, id: remap(m.id)!, parentId: remap(m.parentId) })),
+              currentLeafId: remap(c.currentLeafId),
+            }))
+          } else if (event.type === 'model') {
+            // 实际回答的模型（主模型失败时为备用模型）
+            updateAssistant(m => ({
+              ...m,
+              modelId: event.modelId,
+              modelName: event.modelName,
+              fallback: event.fallback || undefined,
+              fallbackReason: event.fallback ? event.reason : undefined,
             }))
+          } else if (event.type === 'usage') {
+            // 每次 LLM 调用一条，累加到本条回答上
+            updateAssistant(m => ({
+              ...m,
+              usage: {
+                inputTokens: (m.usage?.inputTokens || 0) + (event.inputTokens || 0),
+                outputTokens: (m.usage?.outputTokens || 0) + (event.outputTokens || 0),
+                cost: (m.usage?.cost || 0) + (event.cost || 0),
+              },
+            }))
+          } else if (event.type === 'thinking') {
+            updateAssistant(m => ({ ...m, thinking: (m.thinking || '') + (event.content || '') }))
+          } else if (event.type === 'text') {
+            updateAssistant(m => ({ ...m, content: m.content + (event.content || '') }))
           } else if (event.type === 'tool_call') {
             const toolCall: ToolCallInfo = {
+              id: event.toolUseId,
               tool: event.tool || '',
               agentName: event.agentName || '',
               input: event.input || '',
             }
-            updateConversation(convId!, c => ({
-              ...c,
-              messages: c.messages.map(m =>
-                m.id === assistantMsg.id ? { ...m, toolCalls: [...(m.toolCalls || []), toolCall] } : m
-              ),
+            updateAssistant(m => ({ ...m, toolCalls: [...(m.toolCalls || []), toolCall] }))
+          } else if (event.type === 'tool_progress') {
+            // SubAgent 执行中推送的进度（替换）与部分回答（追加）
+            updateAssistant(m => ({
+              ...m,
+              toolCalls: m.toolCalls?.map(tc => tc.id !== event.toolUseId ? tc
+                : event.kind === 'text'
+                  ? { ...tc, partial: (tc.partial || '') + (event.content || '') }
+                  : { ...tc, progress: event.content }),
             }))
           } else if (event.type === 'tool_result') {
-            // 更新最后一个 tool call 的 result
-            updateConversation(convId!, c => ({
-              ...c,
-              messages: c.messages.map(m => {
-                if (m.id !== assistantMsg.id || !m.toolCalls?.length) return m
-                const toolCalls = [...m.toolCalls]
-                const last = toolCalls.length - 1
-                toolCalls[last] = { ...toolCalls[last], result: event.content || '' }
-                return { ...m, toolCalls }
-              }),
+            // 同一轮的工具并发执行，结果按 toolUseId 对应到调用
+            updateAssistant(m => ({
+              ...m,
+              toolCalls: m.toolCalls?.map(tc => tc.id === event.toolUseId
+                ? { ...tc, result: event.content || '', durationMs: event.durationMs, progress: undefined, partial: undefined }
+                : tc),
             }))
           } else if (event.type === 'error') {
-            updateConversation(convId!, c => ({
-              ...c,
-              messages: c.messages.map(m =>
-                m.id === assistantMsg.id ? { ...m, content: `错误: ${event.message}` } : m
-              ),
-            }))
+            updateAssistant(m => ({ ...m, error: event.message }))
           }
         }
       }
     } catch (err: unknown) {
-      if ((err as Error).name !== 'AbortError') {
-        updateConversation(convId!, c => ({
-          ...c,
-          messages: c.messages.map(m =>
-            m.id === assistantMsg.id ? { ...m, content: `发送失败: ${(err as Error).message}` } : m
-          ),
-        }))
+      if ((err as Error).name === 'AbortError') {
+        updateAssistant(m => ({ ...m, interrupted: true }))
+      } else {
+        updateAssistant(m => ({ ...m, error: `发送失败: ${(err as Error).message}` }))
       }
     } finally {
       setStreaming(false)
       abortRef.current = null
+      // 刷新列表以同步标题与排序
+      api.list().then(setConversations).catch(() => {})
+    }
+  }
+
+  const send = async () => {
+    const text = input.trim()
+    const images = pendingImages
+    const files = currentFiles.map(f => f.name)
+    if ((!text && images.length === 0 && files.length === 0) || streaming || uploading) return
+
+    let conv = current
+    if (!conv) {
+      try {
+        conv = await createConversation()
+      } catch (err) {
+        message.error(`新建对话失败: ${(err as Error).message}`)
+        return
+      }
+      // 首条消息带上新建前选择的模型，后端会记到对话上
+      if (draftModelId) {
+        const modelId = draftModelId
+        updateCurrent(conv.id, c => ({ ...c, modelId }))
+      }
+    }
+
+    setInput('')
+    setPendingImages([])
+    setPendingFiles(prev => prev.filter(f => f.convId !== conv.id))
+    await runTurn(conv.id, conv.currentLeafId, text, current ? undefined : draftModelId, { images, files })
+  }
+
+  // 上传图片（粘贴或选择文件），成功后加入待发送列表
+  const addImages = async (files: File[]) => {
+    const valid = files.filter(f => {
+      if (!IMAGE_TYPES.includes(f.type)) {
+        message.warning(`不支持的图片格式: ${f.name || f.type}`)
+        return false
+      }
+      if (f.size > MAX_IMAGE_BYTES) {
+        message.warning(`图片超过 5MB: ${f.name}`)
+        return false
+      }
+      return true
+    })
+    if (valid.length === 0) return
+    setUploading(true)
+    try {
+      for (const file of valid) {
+        const { id } = await api.uploadImage(file)
+        setPendingImages(prev => [...prev, id])
+      }
+    } catch (err) {
+      message.error(`上传图片失败: ${(err as Error).message}`)
+    } finally {
+      setUploading(false)
     }
   }
 
+  // 上传附件到当前对话（尚未创建对话时先新建），供技能脚本使用
+  const addFiles = async (files: File[]) => {
+    const valid = files.filter(f => {
+      if (f.size > MAX_FILE_BYTES) {
+        message.warning(`附件超过 20MB: ${f.name}`)
+        return false
+      }
+      return true
+    })
+    if (valid.length === 0) return
+    setUploading(true)
+    try {
+      let conv = current
+      if (!conv) {
+        conv = await createConversation()
+        if (draftModelId) {
+          const modelId = draftModelId
+          updateCurrent(conv.id, c => ({ ...c, modelId }))
+          await api.update(conv.id, { modelId })
+        }
+      }
+      const convId = conv.id
+      for (const file of valid) {
+        const { name } = await api.uploadFile(convId, file)
+        setPendingFiles(prev => [...prev, { convId, name }])
+      }
+    } catch (err) {
+      message.error(`上传附件失败: ${(err as Error).message}`)
+    } finally {
+      setUploading(false)
+    }
+  }
+
+  // 移除未发送的附件（同时从对话工作目录删除）
+  const removePendingFile = (convId: string, name: string) => {
+    setPendingFiles(prev => prev.filter(f => !(f.convId === convId && f.name === name)))
+    api.removeFile(convId, name).catch(() => {})
+  }
+
+  const onPaste = (e: React.ClipboardEvent) => {
+    const files = Array.from(e.clipboardData.files).filter(f => f.type.startsWith('image/'))
+    if (files.length === 0) return
+    e.preventDefault()
+    addImages(files)
+  }
+
+  // 编辑用户消息：作为原消息的兄弟分支重新发送（保留原消息的图片和附件）
+  const editMessage = (msg: ChatMessage, text: string) => {
+    if (!current || streaming) return
+    runTurn(current.id, msg.parentId, text, undefined, { images: msg.images, files: msg.files })
+  }
+
+  // 重新生成助手回复：作为原回复的兄弟分支
+  const regenerate = (msg: ChatMessage) => {
+    if (!current || streaming || !msg.parentId) return
+    runTurn(current.id, msg.parentId, null)
+  }
+
+  // 在兄弟分支间切换，并记住服务端的激活分支
+  const switchBranch = (msg: ChatMessage, delta: number) => {
+    if (!current || streaming) return
+    const siblings = getSiblings(current, msg)
+    const target = siblings[siblings.findIndex(m => m.id === msg.id) + delta]
+    if (!target) return
+    const leafId = findLeaf(current, target.id)
+    const convId = current.id
+    updateCurrent(convId, c => ({ ...c, currentLeafId: leafId }))
+    api.update(convId, { currentLeafId: leafId })
+      .catch(err => message.error(`切换分支失败: ${(err as Error).message}`))
+  }
+
+  // 中止请求：后端检测到连接断开后会取消 LLM 流、SubAgent 请求和脚本容器
+  const stop = () => {
+    abortRef.current?.abort()
+  }
+
   const onKeyDown = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault()
@@ -307,12 +854,35 @@ export default function Chat() {
                   display: 'flex', alignItems: 'center', justifyContent: 'space-between',
                 }}
               >
-                <Text
-                  ellipsis
-                  style={{ fontSize: 13, color: c.id === currentId ? '#1677ff' : '#262626', flex: 1 }}
-                >
-                  {c.title}
-                </Text>
+                {renamingId === c.id ? (
+                  <Input
+                    size="small"
+                    autoFocus
+                    value={renameText}
+                    onChange={e => setRenameText(e.target.value)}
+                    onClick={e => e.stopPropagation()}
+                    onPressEnter={e => e.currentTarget.blur()}
+                    onBlur={commitRename}
+                    onKeyDown={e => { if (e.key === 'Escape') setRenamingId(null) }}
+                    style={{ flex: 1, fontSize: 13 }}
+                  />
+                ) : (
+                  <Text
+                    ellipsis
+                    onDoubleClick={() => startRename(c)}
+                    style={{ fontSize: 13, color: c.id === currentId ? '#1677ff' : '#262626', flex: 1 }}
+                  >
+                    {c.title}
+                  </Text>
+                )}
+                <Tooltip title="重命名">
+                  <Button
+                    type="text" size="small"
+                    icon={<EditOutlined />}
+                    onClick={e => { e.stopPropagation(); startRename(c) }}
+                    style={{ opacity: 0.5 }}
+                  />
+                </Tooltip>
                 <Tooltip title="删除">
                   <Button
                     type="text" size="small" danger
@@ -338,9 +908,33 @@ export default function Chat() {
             <RobotOutlined style={{ color: '#722ed1', fontSize: 18 }} />
             <Text strong style={{ fontSize: 15 }}>Willknow</Text>
           </Space>
-          <Tooltip title="设置">
-            <Button type="text" icon={<SettingOutlined />} onClick={() => navigate('/settings')} />
-          </Tooltip>
+          <Space>
+            {subAgents.length > 0 && (
+              <Tooltip title={subAgents.map(sa => {
+                const st = subAgentStatus[sa.id]
+                const state = st?.healthy ? `在线 · ${st.latencyMs}ms` : st?.healthy === false ? '无法连通' : '检查中'
+                return <div key={sa.id}>{sa.name}：{state}</div>
+              })}>
+                <Badge
+                  status={onlineSubAgents === subAgents.length ? 'success' : onlineSubAgents > 0 ? 'warning' : 'error'}
+                  text={<Text type="secondary" style={{ fontSize: 12 }}>SubAgent {onlineSubAgents}/{subAgents.length}</Text>}
+                />
+              </Tooltip>
+            )}
+            {models.length > 0 && (
+              <Select
+                size="small"
+                value={selectedModelId}
+                onChange={changeModel}
+                disabled={streaming}
+                style={{ width: 200 }}
+                options={models.map(m => ({ value: m.id, label: m.isDefault ? `${m.name}（默认）` : m.name }))}
+              />
+            )}
+            <Tooltip title="设置">
+              <Button type="text" icon={<SettingOutlined />} onClick={() => navigate('/settings')} />
+            </Tooltip>
+          </Space>
         </Header>
 
         <Content style={{ display: 'flex', flexDirection: 'column', overflow: 'hidden', background: '#f7f8fa' }}>
@@ -369,7 +963,23 @@ export default function Chat() {
                 style={{ marginTop: hasModels === false ? 40 : 80 }}
               />
             ) : (
-              current.messages.map(msg => <MessageBubble key={msg.id} msg={msg} />)
+              getBranch(current).map((msg, i, branch) => {
+                const siblings = getSiblings(current, msg)
+                return (
+                  <MessageBubble
+                    key={msg.id}
+                    convId={current.id}
+                    msg={msg}
+                    live={streaming && i === branch.length - 1}
+                    siblingIndex={siblings.findIndex(m => m.id === msg.id)}
+                    siblingCount={siblings.length}
+                    disabled={streaming}
+                    onSwitch={delta => switchBranch(msg, delta)}
+                    onEdit={text => editMessage(msg, text)}
+                    onRegenerate={() => regenerate(msg)}
+                  />
+                )
+              })
             )}
             {streaming && (
               <div style={{ display: 'flex', gap: 10, marginBottom: 16 }}>
@@ -383,26 +993,95 @@ export default function Chat() {
 
           {/* 输入区 */}
           <div style={{ padding: '12px 10%', background: '#fff', borderTop: '1px solid #f0f0f0' }}>
+            {(pendingImages.length > 0 || currentFiles.length > 0 || uploading) && (
+              <div style={{ display: 'flex', flexWrap: 'wrap', gap: 8, marginBottom: 8, alignItems: 'center' }}>
+                {pendingImages.map(id => (
+                  <div key={id} style={{ position: 'relative' }}>
+                    <Image src={imageURL(id)} width={64} height={64} style={{ objectFit: 'cover', borderRadius: 6 }} />
+                    <CloseCircleFilled
+                      onClick={() => setPendingImages(prev => prev.filter(i => i !== id))}
+                      style={{ position: 'absolute', top: -6, right: -6, color: '#8c8c8c', background: '#fff', borderRadius: '50%', cursor: 'pointer' }}
+                    />
+                  </div>
+                ))}
+                {currentFiles.map(f => (
+                  <FileTag key={f.name} convId={f.convId} name={f.name} onClose={() => removePendingFile(f.convId, f.name)} />
+                ))}
+                {uploading && (
+                  <div style={{ width: 64, height: 64, display: 'flex', alignItems: 'center', justifyContent: 'center', border: '1px dashed #d9d9d9', borderRadius: 6 }}>
+                    <Spin size="small" />
+                  </div>
+                )}
+              </div>
+            )}
             <div style={{ display: 'flex', gap: 8, alignItems: 'flex-end' }}>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept={IMAGE_TYPES.join(',')}
+                multiple
+                hidden
+                onChange={e => {
+                  addImages(Array.from(e.target.files || []))
+                  e.target.value = ''
+                }}
+              />
+              <input
+                ref={attachInputRef}
+                type="file"
+                multiple
+                hidden
+                onChange={e => {
+                  addFiles(Array.from(e.target.files || []))
+                  e.target.value = ''
+                }}
+              />
+              <Tooltip title="添加附件（供技能脚本处理，如 PDF、表格）">
+                <Button
+                  icon={<PaperClipOutlined />}
+                  onClick={() => attachInputRef.current?.click()}
+                  disabled={streaming || hasModels === false}
+                  style={{ height: 'auto', padding: '6px 10px' }}
+                />
+              </Tooltip>
+              <Tooltip title="添加图片（也可直接粘贴）">
+                <Button
+                  icon={<PictureOutlined />}
+                  onClick={() => fileInputRef.current?.click()}
+                  disabled={streaming || hasModels === false}
+                  style={{ height: 'auto', padding: '6px 10px' }}
+                />
+              </Tooltip>
               <TextArea
                 value={input}
                 onChange={e => setInput(e.target.value)}
                 onKeyDown={onKeyDown}
+                onPaste={onPaste}
                 placeholder={hasModels === false ? '请先配置模型...' : '输入消息，Enter 发送，Shift+Enter 换行'}
                 autoSize={{ minRows: 1, maxRows: 5 }}
                 style={{ flex: 1, resize: 'none' }}
                 disabled={streaming || hasModels === false}
               />
-              <Button
-                type="primary"
-                icon={<SendOutlined />}
-                onClick={send}
-                loading={streaming}
-                disabled={!input.trim() || hasModels === false}
-                style={{ height: 'auto', padding: '6px 16px' }}
-              >
-                发送
-              </Button>
+              {streaming ? (
+                <Button
+                  danger
+                  icon={<StopOutlined />}
+                  onClick={stop}
+                  style={{ height: 'auto', padding: '6px 16px' }}
+                >
+                  停止
+                </Button>
+              ) : (
+                <Button
+                  type="primary"
+                  icon={<SendOutlined />}
+                  onClick={send}
+                  disabled={(!input.trim() && pendingImages.length === 0 && currentFiles.length === 0) || uploading || hasModels === false}
+                  style={{ height: 'auto', padding: '6px 16px' }}
+                >
+                  发送
+                </Button>
+              )}
             </div>
           </div>
         </Content>
@@ -1,11 +1,15 @@
 import { useEffect, useState } from 'react'
 import { Layout, Typography, Button, Row, Col, Card, Divider, message, Spin } from 'antd'
-import { ArrowLeftOutlined, RobotOutlined, WechatOutlined, ThunderboltOutlined, ApiOutlined } from '@ant-design/icons'
+import { ArrowLeftOutlined, RobotOutlined, WechatOutlined, ThunderboltOutlined, ApiOutlined, BarChartOutlined, BookOutlined, ToolOutlined, GlobalOutlined, KeyOutlined } from '@ant-design/icons'
 import { useNavigate } from 'react-router-dom'
 import ModelsPanel from '../components/settings/ModelsPanel'
 import SubAgentsPanel from '../components/settings/SubAgentsPanel'
 import ChannelsPanel from '../components/settings/ChannelsPanel'
 import SkillsPanel from '../components/settings/SkillsPanel'
+import KnowledgePanel from '../components/settings/KnowledgePanel'
+import McpServersPanel from '../components/settings/McpServersPanel'
+import AgentServerPanel from '../components/settings/AgentServerPanel'
+import ApiKeysPanel from '../components/settings/ApiKeysPanel'
 import type { AppConfig } from '../types/config'
 
 const { Header, Content } = Layout
@@ -57,6 +61,9 @@ export default function Settings() {
         <Divider type="vertical" />
         <Title level={5} style={{ margin: 0 }}>设置</Title>
         {saving && <span style={{ fontSize: 12, color: '#8c8c8c' }}>保存中...</span>}
+        <Button icon={<BarChartOutlined />} style={{ marginLeft: 'auto' }} onClick={() => navigate('/settings/usage')}>
+          用量统计
+        </Button>
       </Header>
 
       <Content style={{ padding: 24 }}>
@@ -83,7 +90,13 @@ export default function Settings() {
                 style={{ height: 340 }}
                 styles={{ body: { height: 'calc(100% - 38px)', overflowY: 'auto' } }}
               >
-                <ChannelsPanel channels={config.channels} onChange={update('channels')} />
+                <ChannelsPanel
+                  channels={config.channels}
+                  models={config.models}
+                  skills={config.skills}
+                  subAgents={config.subAgents}
+                  onChange={update('channels')}
+                />
               </Card>
             </Col>
 
@@ -109,6 +122,52 @@ export default function Settings() {
                 <SubAgentsPanel subAgents={config.subAgents} onChange={update('subAgents')} />
               </Card>
             </Col>
+
+            {/* 第三行：知识库 + MCP */}
+            <Col xs={24} md={12}>
+              <Card
+                title={<><BookOutlined style={{ marginRight: 8, color: '#13c2c2' }} />知识库 (Knowledge)</>}
+                size="small"
+                style={{ height: 340 }}
+                styles={{ body: { height: 'calc(100% - 38px)', overflowY: 'auto' } }}
+              >
+                <KnowledgePanel collections={config.knowledge || []} onChange={update('knowledge')} />
+              </Card>
+            </Col>
+
+            <Col xs={24} md={12}>
+              <Card
+                title={<><ToolOutlined style={{ marginRight: 8, color: '#eb2f96' }} />MCP Servers</>}
+                size="small"
+                style={{ height: 340 }}
+                styles={{ body: { height: 'calc(100% - 38px)', overflowY: 'auto' } }}
+              >
+                <McpServersPanel servers={config.mcpServers || []} onChange={update('mcpServers')} />
+              </Card>
+            </Col>
+
+            {/* 第四行：对外服务 + OpenAI 兼容接口 */}
+            <Col xs={24} md={12}>
+              <Card
+                title={<><GlobalOutlined style={{ marginRight: 8, color: '#2f54eb' }} />对外服务 (willknow 协议)</>}
+                size="small"
+                style={{ height: 340 }}
+                styles={{ body: { height: 'calc(100% - 38px)', overflowY: 'auto' } }}
+              >
+                <AgentServerPanel agent={config.agent} models={config.models} onChange={update('agent')} />
+              </Card>
+            </Col>
+
+            <Col xs={24} md={12}>
+              <Card
+                title={<><KeyOutlined style={{ marginRight: 8, color: '#faad14' }} />API 接口 (OpenAI 兼容)</>}
+                size="small"
+                style={{ height: 340 }}
+                styles={{ body: { height: 'calc(100% - 38px)', overflowY: 'auto' } }}
+              >
+                <ApiKeysPanel apiKeys={config.apiKeys || []} onChange={update('apiKeys')} />
+              </Card>
+            </Col>
           </Row>
         )}
       </Content>
@@ -0,0 +1,205 @@
+import { useEffect, useState } from 'react'
+import {
+  Layout, Typography, Button, Row, Col, Card, Divider, Statistic, Table, Tabs,
+  Select, Progress, Tag, Spin, message
+} from 'antd'
+import { ArrowLeftOutlined, ReloadOutlined } from '@ant-design/icons'
+import { useNavigate } from 'react-router-dom'
+import type { ColumnsType } from 'antd/es/table'
+import type { UsageGroup, UsageReport } from '../types/config'
+
+const { Header, Content } = Layout
+const { Title, Text } = Typography
+
+const PERIODS = [7, 30, 90]
+
+function formatTokens(n: number) {
+  return n.toLocaleString('en-US')
+}
+
+function formatCost(n: number) {
+  return n.toFixed(n > 0 && n < 0.01 ? 4 : 2)
+}
+
+// 分组表格的通用列：调用次数、输入 / 输出 token、费用
+function metricColumns<T extends UsageGroup>(): ColumnsType<T> {
+  return [
+    { title: '调用次数', dataIndex: 'calls', align: 'right', width: 100 },
+    { title: '输入 tokens', dataIndex: 'inputTokens', align: 'right', width: 140, render: formatTokens },
+    { title: '输出 tokens', dataIndex: 'outputTokens', align: 'right', width: 140, render: formatTokens },
+    { title: '费用', dataIndex: 'cost', align: 'right', width: 100, render: formatCost },
+  ]
+}
+
+/**
+ * 用量统计：最近 N 天的 token 用量与费用（按模型单价计算），含每日合计和按模型 / 通道 / 对话的分组
+ */
+export default function Usage() {
+  const navigate = useNavigate()
+  const [days, setDays] = useState(30)
+  const [report, setReport] = useState<UsageReport | null>(null)
+  const [loading, setLoading] = useState(true)
+
+  const refresh = () => {
+    setLoading(true)
+    fetch(`/api/usage?days=${days}`)
+      .then(r => {
+        if (!r.ok) throw new Error(`HTTP ${r.status}`)
+        return r.json()
+      })
+      .then(setReport)
+      .catch(() => message.error('加载用量统计失败'))
+      .finally(() => setLoading(false))
+  }
+
+  useEffect(refresh, [days])
+
+  // 每日明细按日期倒序，条形长度相对于用量最高的一天
+  const daily = report ? [...report.daily].reverse() : []
+  const maxDailyTokens = Math.max(1, ...daily.map(d => d.inputTokens + d.outputTokens))
+
+  return (
+    <Layout style={{ minHeight: '100vh', background: '#f0f2f5' }}>
+      <Header style={{ background: '#fff', padding: '0 24px', display: 'flex', alignItems: 'center', gap: 16, boxShadow: '0 1px 4px rgba(0,0,0,0.08)' }}>
+        <Button type="text" icon={<ArrowLeftOutlined />} onClick={() => navigate('/settings')}>
+          返回设置
+        </Button>
+        <Divider type="vertical" />
+        <Title level={5} style={{ margin: 0 }}>用量统计</Title>
+        <Select
+          value={days}
+          onChange={setDays}
+          style={{ width: 120, marginLeft: 'auto' }}
+          options={PERIODS.map(d => ({ value: d, label: `最近 ${d} 天` }))}
+        />
+        <Button type="text" icon={<ReloadOutlined />} onClick={refresh} />
+      </Header>
+
+      <Content style={{ padding: 24 }}>
+        {!report ? (
+          <div style={{ textAlign: 'center', paddingTop: 80 }}><Spin size="large" spinning={loading} /></div>
+        ) : (
+          <Spin spinning={loading}>
+            <Row gutter={[16, 16]}>
+              <Col xs={12} md={6}>
+                <Card size="small"><Statistic title="调用次数" value={report.totals.calls} /></Card>
+              </Col>
+              <Col xs={12} md={6}>
+                <Card size="small"><Statistic title="输入 tokens" value={report.totals.inputTokens} /></Card>
+              </Col>
+              <Col xs={12} md={6}>
+                <Card size="small"><Statistic title="输出 tokens" value={report.totals.outputTokens} /></Card>
+              </Col>
+              <Col xs={12} md={6}>
+                <Card size="small"><Statistic title="费用" value={formatCost(report.totals.cost)} /></Card>
+              </Col>
+
+              <Col xs={24} lg={10}>
+                <Card size="small" title="每日用量" styles={{ body: { padding: 0 } }}>
+                  <Table
+                    size="small"
+                    rowKey="date"
+                    dataSource={daily}
+                    pagination={{ pageSize: 15, size: 'small', hideOnSinglePage: true }}
+                    columns={[
+                      { title: '日期', dataIndex: 'date', width: 110 },
+                      {
+                        title: 'tokens',
+                        key: 'tokens',
+                        render: (_, d) => (
+                          <Progress
+                            percent={((d.inputTokens + d.outputTokens) / maxDailyTokens) * 100}
+                            format={() => formatTokens(d.inputTokens + d.outputTokens)}
+                            size="small"
+                          />
+                        ),
+                      },
+                      { title: '费用', dataIndex: 'cost', align: 'right', width: 90, render: formatCost },
+                    ]}
+                  />
+                </Card>
+              </Col>
+
+              <Col xs={24} lg={14}>
+                <Card size="small" styles={{ body: { paddingTop: 0 } }}>
+                  <Tabs
+                    items={[
+                      {
+                        key: 'model',
+                        label: '按模型',
+                        children: (
+                          <Table
+                            size="small"
+                            rowKey="key"
+                            dataSource={report.byModel}
+                            pagination={false}
+                            locale={{ emptyText: '暂无数据' }}
+                            columns={[{ title: '模型', dataIndex: 'modelName' }, ...metricColumns<UsageReport['byModel'][number]>()]}
+                          />
+                        ),
+                      },
+                      {
+                        key: 'channel',
+                        label: '按通道',
+                        children: (
+                          <Table
+                            size="small"
+                            rowKey="key"
+                            dataSource={report.byChannel}
+                            pagination={false}
+                            locale={{ emptyText: '暂无通道用量' }}
+                            columns={[
+                              {
+                                title: '通道',
+                                dataIndex: 'name',
+                                render: (name: string, g) => (
+                                  <>
+                                    {name}
+                                    {g.type && <Text type="secondary" style={{ fontSize: 12, marginLeft: 6 }}>{g.type}</Text>}
+                                    {g.deleted && <Tag style={{ marginLeft: 6 }}>已删除</Tag>}
+                                  </>
+                                ),
+                              },
+                              ...metricColumns<UsageReport['byChannel'][number]>(),
+                            ]}
+                          />
+                        ),
+                      },
+                      {
+                        key: 'conversation',
+                        label: '按对话',
+                        children: (
+                          <Table
+                            size="small"
+                            rowKey="key"
+                            dataSource={report.byConversation}
+                            pagination={{ pageSize: 10, size: 'small', hideOnSinglePage: true }}
+                            locale={{ emptyText: '暂无对话用量' }}
+                            columns={[
+                              {
+                                title: '对话',
+                                dataIndex: 'title',
+                                ellipsis: true,
+                                render: (title: string, g) => (
+                                  <>
+                                    {title}
+                                    {g.deleted && <Tag style={{ marginLeft: 6 }}>已删除</Tag>}
+                                  </>
+                                ),
+                              },
+                              ...metricColumns<UsageReport['byConversation'][number]>(),
+                            ]}
+                          />
+                        ),
+                      },
+                    ]}
+                  />
+                </Card>
+              </Col>
+            </Row>
+          </Spin>
+        )}
+      </Content>
+    </Layout>
+  )
+}
@@ -6,14 +6,84 @@ export interface ModelConfig {
   baseURL?: string
   model: string
   isDefault?: boolean
+  fallbacks?: string[]            // 备用模型 ID，按顺序在该模型 5xx / 429 / 连接失败时接替
+  inputPrice?: number             // 输入单价（每百万 token），用于用量统计计费
+  outputPrice?: number            // 输出单价（每百万 token）
+  contextWindow?: number          // 上下文窗口（token），未设置时按模型名推断，用于历史压缩
+  thinking?: boolean              // 深度思考（Anthropic 扩展思考 / 通义千问 enable_thinking）
+  thinkingBudget?: number         // 思考预算（token），默认 4096，最小 1024
+  thinkingParams?: boolean        // OpenAI 兼容接口：深度思考时发送 enable_thinking / thinking_budget（通义千问等厂商扩展）
+  vision?: boolean                // 图片理解：仅开启后才会收到用户发送的图片
 }
 
 export interface ChannelConfig {
   id: string
-  type: 'qq' | 'wechat' | 'slack' | 'telegram'
+  type: string                    // 通道类型，对应后端注册的通道插件（qq / telegram / slack ...）
   name: string
   config: Record<string, string>
   enabled: boolean
+  // 通道绑定：未设置时使用默认模型、不加系统提示词、允许全部已启用的技能 / SubAgent
+  modelId?: string
+  systemPrompt?: string
+  allowedSkills?: string[]        // SkillConfig.id 白名单
+  allowedSubAgents?: string[]     // SubAgentConfig.id 白名单
+}
+
+// 通道配置字段的 JSON Schema（子集 + x- 扩展，详见 backend/src/services/channels/registry.js）
+export interface ChannelFieldSchema {
+  type: 'string'
+  title?: string
+  description?: string            // 其中的 {webhookPath} 替换为 /api/channels/<id>/webhook，{channelId} 替换为通道 ID
+  enum?: string[]
+  enumNames?: string[]
+  default?: string
+  format?: 'password'
+  'x-showIf'?: Record<string, string>
+  'x-summary'?: boolean
+  'x-placeholder'?: string
+  'x-multiline'?: boolean
+}
+
+export interface ChannelConfigSchema {
+  type: 'object'
+  required?: string[]
+  properties: Record<string, ChannelFieldSchema>
+}
+
+// GET /api/channels/types
+export interface ChannelTypeInfo {
+  type: string
+  label: string
+  icon?: string
+  schema: ChannelConfigSchema
+}
+
+// 通道会话（GET /api/channels/:id/sessions/:chatId）
+export interface ChannelSessionMessage {
+  role: 'user' | 'assistant'
+  content: string
+  images?: string[]               // 图片 ID，通过 /api/images/:id 访问
+  files?: string[]                // 附件名（技能脚本工作目录中的文件）
+  createdAt: number
+}
+
+export interface ChannelSession {
+  channelId: string
+  chatId: string
+  messages: ChannelSessionMessage[]
+  blocked: boolean
+  createdAt: number
+  updatedAt: number
+}
+
+// GET /api/channels/:id/sessions 返回的会话摘要（不含消息）
+export interface ChannelSessionSummary {
+  chatId: string
+  messageCount: number
+  lastMessage: string
+  blocked: boolean
+  createdAt: number
+  updatedAt: number
 }
 
 export interface SkillConfig {
@@ -44,31 +114,172 @@ export interface SubAgentConfig {
   enabled: boolean
 }
 
+// GET /api/subagents/status 返回的健康状态（后台定期检查 /willknow/info），只包含已启用的 SubAgent
+export interface SubAgentStatus {
+  healthy: boolean | null         // null：尚未完成首次检查
+  latencyMs: number | null        // 最近一次成功检查的耗时
+  uptime: number | null           // 检查成功的比例（0 ~ 1）
+  lastCheckedAt: number | null
+  lastOkAt: number | null
+  lastError: string | null
+}
+
+// MCP server：stdio 启动本地命令，http 为 Streamable HTTP 端点
+export interface McpServerConfig {
+  id: string
+  name: string
+  transport: 'stdio' | 'http'
+  command?: string                // stdio：可执行文件，如 npx、node、uvx
+  args?: string[]                 // stdio：命令参数
+  env?: Record<string, string>    // stdio：额外的环境变量
+  cwd?: string                    // stdio：工作目录，默认为后端目录
+  url?: string                    // http：MCP 端点 URL
+  auth?: SubAgentAuth             // http：认证
+  enabled: boolean
+}
+
+// 知识库集合：文档索引保存在后端数据目录，通过 /api/knowledge 管理
+export interface KnowledgeCollection {
+  id: string
+  name: string                    // LLM 通过名称指定检索的集合
+  description?: string            // 告诉 LLM 集合包含哪些内容
+  enabled: boolean
+  embedding?: {                   // 可选：OpenAI 兼容 /embeddings 接口，配置后与 BM25 混合检索
+    baseURL?: string
+    apiKey?: string
+    model: string
+  }
+  createdAt: number
+}
+
+export interface KnowledgeDocument {
+  id: string
+  name: string
+  type: 'markdown' | 'text' | 'pdf'
+  size: number
+  chunkCount: number
+  createdAt: number
+}
+
+// GET /api/knowledge/status 返回的集合索引状态
+export interface KnowledgeStatus {
+  documentCount: number
+  chunkCount: number
+  embeddingModel: string | null   // 索引中向量所用的模型
+  needsReindex: boolean           // 向量模型与当前配置不一致，需重建索引
+}
+
+// 对外服务：本实例实现 willknow 协议（/willknow/info、/willknow/chat）及可选的 MCP 端点（/willknow/mcp）
+export interface AgentServerConfig {
+  enabled: boolean
+  name?: string                   // /willknow/info 中的名称，默认 willknow
+  description?: string            // /willknow/info 中的描述
+  token?: string                  // 设置后调用方需携带 Authorization: Bearer <token>
+  modelId?: string                // 使用的模型，省略时为默认模型
+  systemPrompt?: string
+  mcp?: boolean                   // 同时开放 MCP 端点
+}
+
+// OpenAI 兼容接口（/v1）的访问密钥
+export interface ApiKeyConfig {
+  id: string
+  name: string
+  key: string                     // 调用方以 Authorization: Bearer <key> 携带
+  createdAt: number
+}
+
 export interface AppConfig {
   models: ModelConfig[]
   channels: ChannelConfig[]
   skills: SkillConfig[]
   subAgents: SubAgentConfig[]
+  knowledge?: KnowledgeCollection[]
+  mcpServers?: McpServerConfig[]
+  agent?: AgentServerConfig
+  apiKeys?: ApiKeyConfig[]
 }
 
 // Chat types
+// 对话消息为树结构：编辑或重新生成会在同一 parentId 下产生兄弟分支
 export interface ChatMessage {
   id: string
+  parentId: string | null
   role: 'user' | 'assistant'
   content: string
+  images?: string[]               // 用户消息附带的图片 ID，通过 /api/images/:id 访问
+  files?: string[]                // 用户消息附带的附件名，通过 /api/conversations/:id/files/:name 下载
+  thinking?: string               // 模型的思考过程
   toolCalls?: ToolCallInfo[]
+  error?: string
+  interrupted?: boolean           // 用户点击停止，回答不完整
+  modelId?: string                // 实际回答的模型
+  modelName?: string
+  fallback?: boolean              // 主模型失败，由备用模型回答
+  fallbackReason?: string         // 前一个模型的失败原因
+  usage?: TokenUsage              // 本条回答所有 LLM 调用的用量合计
+  createdAt?: number
+}
+
+export interface TokenUsage {
+  inputTokens: number
+  outputTokens: number
+  cost: number
 }
 
 export interface ToolCallInfo {
+  id?: string                     // tool_use_id，用于对应并发执行的调用与结果
   tool: string
   agentName: string
   input: string
   result?: string
+  durationMs?: number             // 执行耗时
+  progress?: string               // 执行中：SubAgent（willknow 协议 v2）推送的最新进度，不保存
+  partial?: string                // 执行中：SubAgent 已返回的部分回答，不保存
 }
 
 export interface Conversation {
   id: string
   title: string
-  messages: ChatMessage[]
+  messages: ChatMessage[]         // 所有分支上的消息（扁平存储）
+  currentLeafId: string | null    // 当前激活分支的末端消息
+  modelId?: string                // 对话选择的模型，未设置时使用默认模型
+  createdAt: number
+  updatedAt: number
+}
+
+// GET /api/conversations 返回的对话摘要（不含消息）
+export interface ConversationSummary {
+  id: string
+  title: string
   createdAt: number
+  updatedAt: number
+  messageCount: number
+}
+
+// GET /api/conversations/:id/files 返回的附件
+export interface ConversationFile {
+  name: string
+  size: number
+  uploadedAt: number
+}
+
+// 用量统计（GET /api/usage）
+export interface UsageTotals {
+  calls: number
+  inputTokens: number
+  outputTokens: number
+  cost: number
+}
+
+export interface UsageGroup extends UsageTotals {
+  key: string                     // 模型 / 通道 / 对话 ID
+}
+
+export interface UsageReport {
+  days: number
+  totals: UsageTotals
+  daily: (UsageTotals & { date: string })[]
+  byModel: (UsageGroup & { modelName: string })[]
+  byChannel: (UsageGroup & { name: string; type?: string; deleted: boolean })[]
+  byConversation: (UsageGroup & { title: string; deleted: boolean })[]
 }
@@ -7,6 +7,8 @@ export default defineConfig({
     port: 5173,
     proxy: {
       '/api': 'http://localhost:3000',
+      '/willknow': 'http://localhost:3000',
+      '/v1': 'http://localhost:3000',
     },
   },
 })